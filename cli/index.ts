@@ -319,7 +319,7 @@ async function createDefaultTemplate(projectPath: string, name: string, useTypeS
           '@/components/*': ['./app/components/*']
         }
       },
-      include: ['**/*.ts', '**/*.tsx'],
+      include: ['**/*.ts', '**/*.tsx', '.flexi/types/**/*.ts'],
       exclude: ['node_modules']
     };
     fs.writeFileSync(
@@ -970,13 +970,19 @@ async function runStart(): Promise<void> {
   const ext = isBuilt ? 'js' : 'ts';
   const startProdPath = path.join(__dirname, '..', 'core', `start-prod.${ext}`);
 
+  // The compiled server runs on plain Node, only the source tree needs tsx.
+  // A flexireact.config.ts is compiled through tsx's API by loadConfig.
+  const [command, args] = isBuilt
+    ? [process.execPath, [startProdPath]]
+    : ['npx', ['tsx', startProdPath]];
+
   const child = spawn(
-    'npx',
-    ['tsx', startProdPath],
+    command,
+    args,
     {
       stdio: 'inherit',
       cwd: process.cwd(),
-      shell: true,
+      shell: !isBuilt,
       env: { ...process.env, NODE_ENV: 'production' }
     }
   );
@@ -1014,8 +1020,8 @@ async function runDoctor(): Promise<void> {
   const nodeMajor = parseInt(nodeVersion.slice(1).split('.')[0]);
   checks.push({
     name: 'Node.js version',
-    status: nodeMajor >= 18 ? 'pass' : 'fail',
-    message: nodeMajor >= 18 ? `${nodeVersion} ✓` : `${nodeVersion} (requires 18+)`
+    status: nodeMajor >= 20 ? 'pass' : 'fail',
+    message: nodeMajor >= 20 ? `${nodeVersion} ✓` : `${nodeVersion} (requires 20+)`
   });
 
   // package.json
@@ -0,0 +1,68 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { callServerAction, ARGS_FIELD } from './client.js';
+import { deserializeArgs } from './index.js';
+import { serialize } from '../serialize/index.js';
+
+describe('callServerAction', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: Array<{ headers: Record<string, string>; body: any }>;
+
+  before(() => {
+    (globalThis as any).document = { cookie: '__flexi_action=token' };
+    globalThis.fetch = (async (_url: string, init: any) => {
+      requests.push({ headers: init.headers, body: init.body });
+      return new Response(serialize({ success: true, data: null }));
+    }) as typeof fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+    delete (globalThis as any).document;
+  });
+
+  test('posts plain arguments as JSON', async () => {
+    requests = [];
+    const date = new Date('2026-01-01T00:00:00Z');
+
+    await callServerAction('save', ['title', date]);
+
+    const [{ headers, body }] = requests;
+    assert.equal(headers['Content-Type'], 'application/json');
+    assert.equal(headers['X-Flexi-Action-Token'], 'token');
+
+    const parsed = JSON.parse(body);
+    assert.equal(parsed.actionId, 'save');
+    assert.deepEqual(deserializeArgs(parsed.args), ['title', date]);
+  });
+
+  test('posts FormData and files as multipart', async () => {
+    requests = [];
+    const formData = new FormData();
+    formData.append('title', 'Hello');
+    formData.append('tag', 'a');
+    formData.append('tag', 'b');
+    formData.append('cover', new File(['image bytes'], 'cover.png', { type: 'image/png' }));
+    const attachment = new File(['text'], 'notes.txt', { type: 'text/plain' });
+
+    await callServerAction('upload', [formData, attachment, 42]);
+
+    const [{ headers, body }] = requests;
+    assert.ok(body instanceof FormData);
+    assert.equal(headers['Content-Type'], undefined);
+    assert.equal(body.get('actionId'), 'upload');
+
+    const [receivedForm, receivedFile, count] = deserializeArgs(JSON.parse(body.get(ARGS_FIELD) as string), body);
+
+    assert.ok(receivedForm instanceof FormData);
+    assert.equal(receivedForm.get('title'), 'Hello');
+    assert.deepEqual(receivedForm.getAll('tag'), ['a', 'b']);
+    const cover = receivedForm.get('cover') as File;
+    assert.equal(cover.name, 'cover.png');
+    assert.equal(await cover.text(), 'image bytes');
+
+    assert.equal((receivedFile as File).name, 'notes.txt');
+    assert.equal(await (receivedFile as File).text(), 'text');
+    assert.equal(count, 42);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * FlexiReact Server Actions (client)
+ * Calls server actions over `/_flexi/action`. Has no server dependencies, so client
+ * bundles can import it: the modules marked 'use server' that client components
+ * import are replaced with references created here.
+ */
+
+import { deserialize } from '../serialize/index.js';
+import type { ActionResult } from './index.js';
+
+/**
+ * Reads the token the server checks actions against (double-submit cookie).
+ * Pages set it; when the current one didn't, it's fetched once.
+ */
+async function getActionToken(): Promise<string> {
+  const readCookie = () => document.cookie.match(/(?:^|;\s*)__flexi_action=([^;]*)/)?.[1];
+
+  let token = readCookie();
+  if (!token) {
+    await fetch('/_flexi/action', { credentials: 'same-origin' });
+    token = readCookie();
+  }
+
+  return token ? decodeURIComponent(token) : '';
+}
+
+/** Field with the JSON arguments, when an action is posted as multipart/form-data */
+export const ARGS_FIELD = '$args';
+
+/**
+ * Call a server action from the client. Arguments are posted as JSON, or as
+ * multipart/form-data when one of them is a FormData, File or Blob.
+ */
+export async function callServerAction(
+  actionId: string,
+  args: any[]
+): Promise<ActionResult> {
+  try {
+    const headers: Record<string, string> = {
+      'X-Flexi-Action': actionId,
+      'X-Flexi-Action-Token': await getActionToken()
+    };
+
+    let body: string | FormData;
+
+    if (args.some(isUpload)) {
+      // The browser sets the Content-Type, with the boundary
+      body = new FormData();
+      body.append('actionId', actionId);
+      body.append(ARGS_FIELD, JSON.stringify(serializeArgs(args, body)));
+    } else {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify({ actionId, args: serializeArgs(args) });
+    }
+
+    const response = await fetch('/_flexi/action', {
+      method: 'POST',
+      headers,
+      body,
+      credentials: 'same-origin'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Action failed: ${response.statusText}`);
+    }
+
+    // Results keep Dates, Maps, Sets and undefined (see core/serialize)
+    const result: ActionResult = deserialize(await response.text());
+
+    // Handle redirect
+    if (result.redirect) {
+      window.location.href = result.redirect;
+      return result;
+    }
+
+    return result;
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
+function isUpload(arg): boolean {
+  return arg instanceof FormData || (typeof Blob !== 'undefined' && arg instanceof Blob);
+}
+
+/**
+ * Serialize action arguments for transmission. With `multipart`, FormData
+ * entries and files are appended to it and referenced by field name.
+ */
+function serializeArgs(args: any[], multipart?: FormData): any[] {
+  return args.map((arg, index) => {
+    // Handle FormData, its entries are sent as `$arg<index>:<name>`
+    if (arg instanceof FormData && multipart) {
+      const prefix = `$arg${index}:`;
+      arg.forEach((value, key) => multipart.append(prefix + key, value));
+      return { $$type: 'FormData', prefix };
+    }
+
+    // Handle File and Blob
+    if (typeof Blob !== 'undefined' && arg instanceof Blob && multipart) {
+      const field = `$arg${index}`;
+      multipart.append(field, arg);
+      return { $$type: typeof File !== 'undefined' && arg instanceof File ? 'File' : 'Blob', field };
+    }
+
+    // Handle Date
+    if (arg instanceof Date) {
+      return { $$type: 'Date', value: arg.toISOString() };
+    }
+
+    // Handle regular objects
+    if (typeof arg === 'object' && arg !== null) {
+      return JSON.parse(JSON.stringify(arg));
+    }
+
+    return arg;
+  });
+}
+
+/**
+ * Creates the client side of a 'use server' function: calling it runs the action
+ * on the server and resolves to what it returned, or throws its error.
+ */
+export function createServerReference(actionId: string) {
+  const reference = async (...args: any[]) => {
+    const result = await callServerAction(actionId, args);
+
+    if (!result.success) {
+      throw new Error(result.error || 'Action failed');
+    }
+
+    return result.data;
+  };
+
+  // Same marks as `serverAction()`, so forms and bindArgs treat it as an action
+  (reference as any).$$typeof = Symbol.for('react.server.action');
+  (reference as any).$$id = actionId;
+  (reference as any).$$bound = null;
+
+  return reference;
+}
+
+export default {
+  callServerAction,
+  createServerReference,
+  ARGS_FIELD
+};
@@ -0,0 +1,90 @@
+import { test, describe, before } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { serverAction, decodeFormAction, setActionSigningKey } from './index.js';
+import { serialize } from '../serialize/index.js';
+import { BodyParseError } from '../server/body.js';
+
+const KEY = 'test-signing-key';
+
+/**
+ * The form React renders for an action, with a submitted field
+ */
+function renderForm(action: any, prefix = '1') {
+  const { data, name } = action.$$FORM_ACTION(prefix);
+  data.append(name, '');
+  data.append('title', 'Hello');
+  return data as FormData;
+}
+
+/**
+ * Replaces the bound arguments field of a rendered form
+ */
+function withBound(formData: FormData, value: string | Blob) {
+  const field = [...formData.keys()].find((key) => key.endsWith(':bound'))!;
+  formData.set(field, value);
+  return formData;
+}
+
+const sign = (id: string, payload: string) => crypto.createHmac('sha256', KEY).update(`${id}:${payload}`).digest('base64url');
+
+describe('form actions', () => {
+  const save = serverAction(async (...args: any[]) => args, { id: 'save' });
+
+  before(() => {
+    setActionSigningKey(KEY);
+  });
+
+  test('decode the action and the submitted fields', () => {
+    const request = decodeFormAction(renderForm(save))!;
+
+    assert.equal(request.id, 'save');
+    assert.deepEqual(request.bound, []);
+    assert.deepEqual([...request.formData.keys()], ['title']);
+  });
+
+  test('carry bound arguments, with their types', () => {
+    const date = new Date('2026-01-01T00:00:00Z');
+    const request = decodeFormAction(renderForm(save.bind(null, 'draft', date)))!;
+
+    assert.deepEqual(request.bound, ['draft', date]);
+  });
+
+  test('reject bound arguments that were changed', () => {
+    const formData = renderForm(save.bind(null, 'draft'));
+    const field = [...formData.values()].find((value) => typeof value === 'string' && value.includes('.')) as string;
+    const [signature] = field.split('.');
+
+    assert.throws(() => decodeFormAction(withBound(formData, `${signature}.${serialize(['published'])}`)), BodyParseError);
+  });
+
+  test('reject bound arguments signed for another action', () => {
+    const payload = serialize(['draft']);
+    const formData = withBound(renderForm(save.bind(null, 'x')), `${sign('other', payload)}.${payload}`);
+
+    assert.throws(() => decodeFormAction(formData), /Invalid signature/);
+  });
+
+  test('reject malformed bound arguments with a 400', () => {
+    const notArray = serialize({ length: 1 });
+    const notJSON = '{oops';
+
+    for (const value of ['no-signature', `${sign('save', notArray)}.${notArray}`, `${sign('save', notJSON)}.${notJSON}`, new Blob(['x'])]) {
+      assert.throws(
+        () => decodeFormAction(withBound(renderForm(save.bind(null, 'x')), value)),
+        (error: any) => error instanceof BodyParseError && error.status === 400
+      );
+    }
+  });
+
+  test('only accept the key of the server that signed them', () => {
+    const formData = renderForm(save.bind(null, 'draft'));
+
+    setActionSigningKey('another-key');
+    try {
+      assert.throws(() => decodeFormAction(formData), BodyParseError);
+    } finally {
+      setActionSigningKey(KEY);
+    }
+  });
+});
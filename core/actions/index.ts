@@ -37,16 +37,37 @@
 export { useActionState, useOptimistic } from 'react';
 export { useFormStatus } from 'react-dom';
 
+import crypto from 'crypto';
 import { cookies, headers, redirect, notFound, RedirectError, NotFoundError } from '../helpers.js';
+import { createRequestStore, getRequestStore, runWithRequestStore } from '../request-store.js';
+import { callServerAction, createServerReference } from './client.js';
+import { createActionId } from './transform.js';
+import { serialize, deserialize } from '../serialize/index.js';
+import { BodyParseError } from '../server/body.js';
+
+export { callServerAction, createServerReference } from './client.js';
+export { createActionId } from './transform.js';
 
 // Global action registry
 declare global {
   var __FLEXI_ACTIONS__: Record<string, ServerActionFunction>;
-  var __FLEXI_ACTION_CONTEXT__: ActionContext | null;
+  var __FLEXI_ACTION_OPTIONS__: Record<string, ServerActionOptions>;
+  var __FLEXI_REGISTER_MODULE_ACTIONS__: typeof registerModuleActions;
+  var __FLEXI_ACTION_KEY__: string;
 }
 
 globalThis.__FLEXI_ACTIONS__ = globalThis.__FLEXI_ACTIONS__ || {};
-globalThis.__FLEXI_ACTION_CONTEXT__ = null;
+globalThis.__FLEXI_ACTION_OPTIONS__ = globalThis.__FLEXI_ACTION_OPTIONS__ || {};
+globalThis.__FLEXI_ACTION_KEY__ = globalThis.__FLEXI_ACTION_KEY__ || crypto.randomBytes(32).toString('hex');
+
+// Called by modules that define actions once they've run (see ./transform.ts)
+globalThis.__FLEXI_REGISTER_MODULE_ACTIONS__ = registerModuleActions;
+
+/** Marks the functions `serverAction()` returns */
+const SERVER_ACTION = Symbol.for('react.server.action');
+
+/** Prefix of the hidden fields that name the action of a form posted without JavaScript */
+const FORM_ACTION_FIELD = '$ACTION_';
 
 export interface ActionContext {
   request: Request;
@@ -58,6 +79,21 @@ export interface ActionContext {
 
 export type ServerActionFunction = (...args: any[]) => Promise<any>;
 
+export interface ServerActionOptions {
+  /** Action ID. By default it's derived from the defining module and export name. */
+  id?: string;
+  /**
+   * Set to false for public endpoints that other sites may call: skips the
+   * origin, token and content type checks
+   */
+  csrf?: boolean;
+}
+
+/**
+ * Where each action is defined, by action ID. Written by `flexi build` to manifest.json.
+ */
+export type ActionManifest = Record<string, { module: string; export: string }>;
+
 export interface ActionResult<T = any> {
   success: boolean;
   data?: T;
@@ -66,41 +102,214 @@ export interface ActionResult<T = any> {
 }
 
 /**
- * Decorator to mark a function as a server action
+ * Decorator to mark a function as a server action.
+ * Takes an action ID, or options (`{ id, csrf: false }`).
+ *
+ * Exported actions get an ID from their module path and export name, the same
+ * in every process and build. Actions that aren't exported get a random one,
+ * which only the process that created it knows.
  */
 export function serverAction<T extends ServerActionFunction>(
   fn: T,
-  actionId?: string
+  actionIdOrOptions?: string | ServerActionOptions
 ): T {
-  const id = actionId || `action_${fn.name}_${generateActionId()}`;
+  const options = typeof actionIdOrOptions === 'string' ? { id: actionIdOrOptions } : actionIdOrOptions || {};
+  const id = options.id || `action_${fn.name}_${generateActionId()}`;
 
   // Register the action
-  globalThis.__FLEXI_ACTIONS__[id] = fn;
+  registerAction(id, fn, options);
 
   // Create a proxy that will be serialized for the client
   const proxy = (async (...args: any[]) => {
+    // Read on every call, the ID changes once the defining module names its actions
+    const actionId = (proxy as any).$$id;
+
     // If we're on the server, execute directly
     if (typeof window === 'undefined') {
-      return await executeAction(id, args);
+      return await executeAction(actionId, args);
     }
 
     // If we're on the client, make a fetch request
-    return await callServerAction(id, args);
+    return await callServerAction(actionId, args);
   }) as T;
 
-  // Mark as server action
-  (proxy as any).$$typeof = Symbol.for('react.server.action');
-  (proxy as any).$$id = id;
-  (proxy as any).$$bound = null;
+  return markServerAction(proxy, id);
+}
+
+/**
+ * Marks a function as a server action. React reads `$$FORM_ACTION` when it
+ * renders `<form action>` or `<button formAction>` on the server, so the form
+ * posts to the current page and works before hydration.
+ */
+function markServerAction<T extends ServerActionFunction>(fn: T, id: string, bound: any[] | null = null): T {
+  const action = fn as any;
+
+  action.$$typeof = SERVER_ACTION;
+  action.$$id = id;
+  action.$$bound = bound;
+  action.$$FORM_ACTION = (prefix: string) => encodeFormAction(action.$$id, action.$$bound, prefix);
+  action.$$IS_SIGNATURE_EQUAL = (referenceId: string, boundArity: number) =>
+    action.$$id === referenceId && (action.$$bound?.length || 0) === boundArity;
+
+  // useActionState binds the previous state, which the form has to carry too
+  action.bind = (thisArg: any, ...args: any[]) =>
+    markServerAction(Function.prototype.bind.call(fn, thisArg, ...args), action.$$id, [...(action.$$bound || []), ...args]);
+
+  return fn;
+}
+
+/**
+ * Sets the key bound arguments are signed with. Every server of an app needs the
+ * same one: they use `actions.secret`, or the ID of the build they run.
+ */
+export function setActionSigningKey(key: string): void {
+  globalThis.__FLEXI_ACTION_KEY__ = key;
+}
+
+/**
+ * Signs the bound arguments of an action, so a form can't post others
+ */
+function signBoundArguments(id: string, payload: string): string {
+  return crypto.createHmac('sha256', globalThis.__FLEXI_ACTION_KEY__).update(`${id}:${payload}`).digest('base64url');
+}
+
+/**
+ * Reads signed bound arguments back, throwing a BodyParseError (400) for a
+ * field that was changed or isn't an array
+ */
+function verifyBoundArguments(id: string, field: FormDataEntryValue): any[] {
+  const separator = typeof field === 'string' ? field.indexOf('.') : -1;
+  if (separator === -1) throw new BodyParseError('Malformed bound arguments');
+
+  const signature = Buffer.from((field as string).slice(0, separator));
+  const payload = (field as string).slice(separator + 1);
+  const expected = Buffer.from(signBoundArguments(id, payload));
+
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+    throw new BodyParseError('Invalid signature of the bound arguments');
+  }
+
+  let bound;
+  try {
+    bound = deserialize(payload);
+  } catch {
+    // Answered below
+  }
+
+  if (!Array.isArray(bound)) throw new BodyParseError('Malformed bound arguments');
+  return bound;
+}
+
+/**
+ * Gets the fields React renders for a form action: the action ID and signed
+ * bound arguments as hidden inputs, posted as multipart to the current URL
+ */
+function encodeFormAction(id: string, bound: any[] | null, prefix: string) {
+  const data = new FormData();
+  data.append(`${FORM_ACTION_FIELD}${prefix}:id`, id);
+
+  if (bound?.length) {
+    const payload = serialize(bound, { label: `Bound arguments of action ${id}` });
+    data.append(`${FORM_ACTION_FIELD}${prefix}:bound`, `${signBoundArguments(id, payload)}.${payload}`);
+  }
 
-  return proxy;
+  return {
+    name: `${FORM_ACTION_FIELD}REF_${prefix}`,
+    method: 'POST',
+    encType: 'multipart/form-data',
+    data
+  };
+}
+
+export interface FormActionRequest {
+  id: string;
+  /** Arguments bound to the action, including the previous state of `useActionState` */
+  bound: any[];
+  /** Key of the `useActionState` hook that submitted the form */
+  key: string | null;
+  /** The submitted fields, without the action fields */
+  formData: FormData;
+}
+
+/**
+ * Reads which action a form posted without JavaScript targets, or null for a
+ * form that isn't bound to an action. Throws a BodyParseError for bound
+ * arguments that don't come from the server.
+ */
+export function decodeFormAction(formData: FormData): FormActionRequest | null {
+  const name = [...formData.keys()].find((key) => key.startsWith(`${FORM_ACTION_FIELD}REF_`));
+  if (!name) return null;
+
+  const prefix = name.slice(`${FORM_ACTION_FIELD}REF_`.length);
+  const id = formData.get(`${FORM_ACTION_FIELD}${prefix}:id`);
+  if (typeof id !== 'string') return null;
+
+  const bound = formData.get(`${FORM_ACTION_FIELD}${prefix}:bound`);
+  const key = formData.get(`${FORM_ACTION_FIELD}KEY`);
+
+  // Other buttons of the form add their own action fields, none reach the action
+  const fields = new FormData();
+  for (const [field, value] of formData) {
+    if (!field.startsWith(FORM_ACTION_FIELD)) fields.append(field, value);
+  }
+
+  return {
+    id,
+    bound: bound === null ? [] : verifyBoundArguments(id, bound),
+    key: typeof key === 'string' ? key : null,
+    formData: fields
+  };
 }
 
 /**
  * Register a server action
  */
-export function registerAction(id: string, fn: ServerActionFunction): void {
+export function registerAction(id: string, fn: ServerActionFunction, options: ServerActionOptions = {}): void {
   globalThis.__FLEXI_ACTIONS__[id] = fn;
+  globalThis.__FLEXI_ACTION_OPTIONS__[id] = options;
+}
+
+/**
+ * Registers the actions a module exports under their stable ID: functions of a
+ * 'use server' module, the `actionExports` found to start with 'use server' when
+ * the module was compiled, and `serverAction()`s that weren't given an ID.
+ * Returns the module's entries for the action manifest.
+ */
+export function registerModuleActions(
+  modulePath: string,
+  moduleExports: Record<string, any>,
+  serverModule = false,
+  actionExports: string[] = []
+): ActionManifest {
+  const manifest: ActionManifest = {};
+
+  for (const [name, value] of Object.entries(moduleExports)) {
+    if (typeof value !== 'function') continue;
+
+    if (value.$$typeof !== SERVER_ACTION) {
+      if (!serverModule && !actionExports.includes(name)) continue;
+
+      // Marked like `serverAction()` proxies, and still callable as is on the server
+      const id = createActionId(modulePath, name);
+      registerAction(id, value);
+      markServerAction(value, id);
+    }
+
+    const previousId = value.$$id;
+    const options = getActionOptions(previousId);
+    const id = options.id || createActionId(modulePath, name);
+
+    if (id !== previousId) {
+      registerAction(id, getAction(previousId), options);
+      delete globalThis.__FLEXI_ACTIONS__[previousId];
+      delete globalThis.__FLEXI_ACTION_OPTIONS__[previousId];
+      value.$$id = id;
+    }
+
+    manifest[id] = { module: modulePath, export: name };
+  }
+
+  return manifest;
 }
 
 /**
@@ -110,6 +319,13 @@ export function getAction(id: string): ServerActionFunction | undefined {
   return globalThis.__FLEXI_ACTIONS__[id];
 }
 
+/**
+ * Get the options an action was registered with
+ */
+export function getActionOptions(id: string): ServerActionOptions {
+  return globalThis.__FLEXI_ACTION_OPTIONS__[id] || {};
+}
+
 /**
  * Execute a server action on the server
  */
@@ -127,19 +343,23 @@ export async function executeAction(
     };
   }
 
+  // Run inside the current request, or a standalone one when called directly
+  const store = getRequestStore() || createRequestStore(context?.request || new Request('http://localhost'));
+
   // Set up action context
   const actionContext: ActionContext = {
-    request: context?.request || new Request('http://localhost'),
+    request: context?.request || store.request,
     cookies,
     headers,
     redirect,
     notFound
   };
 
-  globalThis.__FLEXI_ACTION_CONTEXT__ = actionContext;
-
   try {
-    const result = await action(...args);
+    const result = await runWithRequestStore(
+      { ...store, action: actionContext },
+      () => action(...args)
+    );
 
     return {
       success: true,
@@ -166,114 +386,30 @@ export async function executeAction(
       success: false,
       error: error.message || 'Action failed'
     };
-  } finally {
-    globalThis.__FLEXI_ACTION_CONTEXT__ = null;
   }
 }
 
 /**
- * Call a server action from the client
+ * Deserialize action arguments on the server. FormData and files posted as
+ * multipart/form-data are read from its fields in `multipart`.
  */
-export async function callServerAction(
-  actionId: string,
-  args: any[]
-): Promise<ActionResult> {
-  try {
-    const response = await fetch('/_flexi/action', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Flexi-Action': actionId
-      },
-      body: JSON.stringify({
-        actionId,
-        args: serializeArgs(args)
-      }),
-      credentials: 'same-origin'
-    });
-
-    if (!response.ok) {
-      throw new Error(`Action failed: ${response.statusText}`);
-    }
-
-    const result = await response.json();
-
-    // Handle redirect
-    if (result.redirect) {
-      window.location.href = result.redirect;
-      return result;
-    }
-
-    return result;
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Network error'
-    };
-  }
-}
-
-/**
- * Serialize action arguments for transmission
- */
-function serializeArgs(args: any[]): any[] {
-  return args.map(arg => {
-    // Handle FormData
-    if (arg instanceof FormData) {
-      const obj: Record<string, any> = {};
-      arg.forEach((value, key) => {
-        if (obj[key]) {
-          // Handle multiple values
-          if (Array.isArray(obj[key])) {
-            obj[key].push(value);
-          } else {
-            obj[key] = [obj[key], value];
-          }
-        } else {
-          obj[key] = value;
-        }
-      });
-      return { $$type: 'FormData', data: obj };
-    }
-
-    // Handle File
-    if (typeof File !== 'undefined' && arg instanceof File) {
-      return { $$type: 'File', name: arg.name, type: arg.type, size: arg.size };
-    }
-
-    // Handle Date
-    if (arg instanceof Date) {
-      return { $$type: 'Date', value: arg.toISOString() };
-    }
-
-    // Handle regular objects
-    if (typeof arg === 'object' && arg !== null) {
-      return JSON.parse(JSON.stringify(arg));
-    }
-
-    return arg;
-  });
-}
-
-/**
- * Deserialize action arguments on the server
- */
-export function deserializeArgs(args: any[]): any[] {
+export function deserializeArgs(args: any[], multipart?: FormData): any[] {
   return args.map(arg => {
     if (arg && typeof arg === 'object') {
-      // Handle FormData
-      if (arg.$$type === 'FormData') {
+      // Handle FormData, rebuilt from the fields of a multipart request
+      if (arg.$$type === 'FormData' && multipart && typeof arg.prefix === 'string') {
         const formData = new FormData();
-        for (const [key, value] of Object.entries(arg.data)) {
-          if (Array.isArray(value)) {
-            value.forEach(v => formData.append(key, v as string));
-          } else {
-            formData.append(key, value as string);
-          }
-        }
+        multipart.forEach((value, key) => {
+          if (key.startsWith(arg.prefix)) formData.append(key.slice(arg.prefix.length), value);
+        });
         return formData;
       }
 
+      // Handle File and Blob, sent as a field of a multipart request
+      if ((arg.$$type === 'File' || arg.$$type === 'Blob') && multipart && typeof arg.field === 'string') {
+        return multipart.get(arg.field);
+      }
+
       // Handle Date
       if (arg.$$type === 'Date') {
         return new Date(arg.value);
@@ -285,7 +421,7 @@ export function deserializeArgs(args: any[]): any[] {
 }
 
 /**
- * Generate a unique action ID
+ * Generate a random action ID, for actions that aren't exported
  */
 function generateActionId(): string {
   return Math.random().toString(36).substring(2, 10);
@@ -295,7 +431,7 @@ function generateActionId(): string {
  * Hook to get the current action context
  */
 export function useActionContext(): ActionContext | null {
-  return globalThis.__FLEXI_ACTION_CONTEXT__;
+  return getRequestStore()?.action || null;
 }
 
 /**
@@ -381,19 +517,22 @@ export function bindArgs<T extends ServerActionFunction>(
     return await (action as any)(...boundArgs, ...args);
   }) as T;
 
-  // Copy action metadata
-  (boundAction as any).$$typeof = (action as any).$$typeof;
-  (boundAction as any).$$id = (action as any).$$id;
-  (boundAction as any).$$bound = boundArgs;
+  if ((action as any).$$typeof !== SERVER_ACTION) return boundAction;
 
-  return boundAction;
+  return markServerAction(boundAction, (action as any).$$id, [...((action as any).$$bound || []), ...boundArgs]);
 }
 
 export default {
   serverAction,
   registerAction,
+  registerModuleActions,
+  createActionId,
+  createServerReference,
   getAction,
+  getActionOptions,
   executeAction,
+  decodeFormAction,
+  setActionSigningKey,
   callServerAction,
   deserializeArgs,
   useActionContext,
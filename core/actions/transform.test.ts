@@ -0,0 +1,203 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as esbuild from 'esbuild';
+import {
+  createActionId,
+  isServerModule,
+  definesServerActions,
+  getServerFunctionExports,
+  appendActionRegistration,
+  createServerReferenceModule,
+  replaceServerFunctions,
+  serverReferencesPlugin
+} from './transform.js';
+import { registerModuleActions, serverAction, getAction } from './index.js';
+
+const actionsModule = `
+import { db } from './db';
+import { format } from './format';
+
+const TABLE = 'posts';
+const clean = (title: string) => title.trim();
+
+export async function createPost({ title }: { title: string }) {
+  'use server';
+  return db.insert(TABLE, clean(title));
+}
+
+export const deletePost = async ({ id }, { force } = { force: false }) => {
+  "use server"
+  return db.remove(id, force);
+};
+
+const archive = async function () {
+  'use server';
+  return db.archive();
+};
+
+export { archive as archivePost };
+
+export function formatTitle(title: string) {
+  return format(clean(title));
+}
+
+export default async function () {
+  'use server';
+  return db.count();
+}
+`;
+
+describe('createActionId', () => {
+  test('is stable for a module and export', () => {
+    assert.equal(createActionId('app/actions.ts', 'save'), createActionId('app/actions.ts', 'save'));
+    assert.match(createActionId('app/actions.ts', 'save'), /^[0-9a-f]{20}$/);
+  });
+
+  test('differs between modules and exports', () => {
+    const id = createActionId('app/actions.ts', 'save');
+    assert.notEqual(createActionId('app/other.ts', 'save'), id);
+    assert.notEqual(createActionId('app/actions.ts', 'remove'), id);
+  });
+});
+
+describe('directives', () => {
+  test('a module-level directive comes before any code', () => {
+    assert.equal(isServerModule(`'use server';\nexport const a = 1;`), true);
+    assert.equal(isServerModule(`// actions\n/* all of them */\n"use server"\nexport const a = 1;`), true);
+    assert.equal(isServerModule(`import x from 'y';\n'use server';`), false);
+    assert.equal(isServerModule(actionsModule), false);
+  });
+
+  test('definesServerActions finds serverAction() calls and directives', () => {
+    assert.equal(definesServerActions(`export const save = serverAction(async () => {});`), true);
+    assert.equal(definesServerActions(actionsModule), true);
+    assert.equal(definesServerActions(`export const a = 1;`), false);
+  });
+
+  test('exported functions starting with the directive are found from the syntax', () => {
+    assert.deepEqual(getServerFunctionExports(actionsModule, '/app/actions.ts'), ['createPost', 'deletePost', 'archivePost', 'default']);
+  });
+
+  test('directives later in a function, and functions that are not exported, are not actions', () => {
+    const source = `
+      async function helper() { 'use server'; }
+      export async function later() { const a = 1; 'use server'; }
+      export const value = 'use server';
+      export function Form() { return <form action={helper} />; }
+    `;
+    assert.deepEqual(getServerFunctionExports(source, '/app/form.jsx'), []);
+  });
+
+  test('default exports declared elsewhere are found', () => {
+    const source = `const save = async ({ a }) => { 'use server'; };\nexport default save;`;
+    assert.deepEqual(getServerFunctionExports(source, '/app/save.js'), ['default']);
+  });
+});
+
+describe('server registration', () => {
+  test('registers the exports named at compile time, whatever their parameters', async () => {
+    const moduleExports = {
+      update: async ({ id }, [first] = []) => ({ id, first }),
+      helper: async () => 'not an action',
+      save: serverAction(async () => 'saved')
+    };
+
+    const manifest = registerModuleActions('app/destructured.ts', moduleExports, false, ['update']);
+
+    const updateId = createActionId('app/destructured.ts', 'update');
+    const saveId = createActionId('app/destructured.ts', 'save');
+    assert.deepEqual(manifest, {
+      [updateId]: { module: 'app/destructured.ts', export: 'update' },
+      [saveId]: { module: 'app/destructured.ts', export: 'save' }
+    });
+    assert.deepEqual(await getAction(updateId)!({ id: 1 }, ['a']), { id: 1, first: 'a' });
+    assert.equal((moduleExports.helper as any).$$id, undefined);
+  });
+
+  test('the appended registration passes the action exports', () => {
+    const code = appendActionRegistration('export const a = 1;', 'app/a.ts', './a.ts', false, ['a']);
+    assert.match(code, /import \* as __flexiActionModule from "\.\/a\.ts";/);
+    assert.match(code, /__FLEXI_REGISTER_MODULE_ACTIONS__\?\.\("app\/a\.ts", __flexiActionModule, false, \["a"\]\)/);
+  });
+
+  test('the registration is appended once, however many loaders the module goes through', () => {
+    const code = appendActionRegistration('export const a = 1;', 'app/a.ts', './a.ts', false, ['a']);
+    assert.equal(appendActionRegistration(code, 'app/a.ts', './a.ts', false, ['a']), code);
+  });
+});
+
+describe('client references', () => {
+  test('a reference replaces every export of a use server module', () => {
+    const code = createServerReferenceModule('app/actions.ts', ['save', 'default'], '/_flexi/actions.js');
+
+    assert.match(code, /import \{ createServerReference \} from "\/_flexi\/actions\.js";/);
+    assert.ok(code.includes(`createServerReference(${JSON.stringify(createActionId('app/actions.ts', 'save'))})`));
+    assert.match(code, /export \{ __reference0 as "save", __reference1 as "default" \};/);
+  });
+
+  test('exported functions starting with the directive become references', () => {
+    const code = replaceServerFunctions(actionsModule, '/app/actions.ts', 'app/actions.ts', '/_flexi/actions.js');
+
+    for (const name of ['createPost', 'deletePost', 'archivePost', 'default']) {
+      assert.ok(code.includes(`__flexiCreateServerReference("${createActionId('app/actions.ts', name)}")`), name);
+    }
+
+    assert.doesNotMatch(code, /use server|db\.|from '\.\/db'|TABLE/);
+    assert.match(code, /const clean = /);
+    assert.match(code, /import \{ format \} from '\.\/format';/);
+    assert.match(code, /export function formatTitle/);
+    assert.match(code, /export \{ archive as archivePost \};/);
+  });
+
+  test('modules without actions are left alone', () => {
+    const source = `export const a = 1;`;
+    assert.equal(replaceServerFunctions(source, '/app/a.ts', 'app/a.ts', '/_flexi/actions.js'), source);
+  });
+
+  describe('serverReferencesPlugin', () => {
+    let root: string;
+
+    before(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'flexi-actions-'));
+      fs.writeFileSync(path.join(root, 'db.ts'), `export const db = { insert: (t) => 'SECRET_CONNECTION_STRING' + t };\n`);
+      fs.writeFileSync(path.join(root, 'actions.ts'), [
+        `import { db } from './db';`,
+        `export const MAX_TITLE = 80;`,
+        `export const createPost = async ({ title }: { title: string }) => {`,
+        `  'use server';`,
+        `  return db.insert(title);`,
+        `};`
+      ].join('\n'));
+      fs.writeFileSync(path.join(root, 'module-actions.ts'), `'use server';\nimport { db } from './db';\nexport async function save(t) { return db.insert(t); }\n`);
+      fs.writeFileSync(path.join(root, 'entry.ts'), [
+        `import { createPost, MAX_TITLE } from './actions';`,
+        `import { save } from './module-actions';`,
+        `console.log(createPost, MAX_TITLE, save);`
+      ].join('\n'));
+    });
+
+    after(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('keeps the code of actions out of client bundles', async () => {
+      const result = await esbuild.build({
+        entryPoints: [path.join(root, 'entry.ts')],
+        bundle: true,
+        format: 'esm',
+        write: false,
+        logLevel: 'silent',
+        plugins: [serverReferencesPlugin(root)]
+      });
+      const code = result.outputFiles[0].text;
+
+      assert.doesNotMatch(code, /SECRET_CONNECTION_STRING/);
+      assert.ok(code.includes(createActionId('actions.ts', 'createPost')));
+      assert.ok(code.includes(createActionId('module-actions.ts', 'save')));
+      assert.match(code, /MAX_TITLE = 80/);
+    });
+  });
+});
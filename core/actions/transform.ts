@@ -0,0 +1,444 @@
+/**
+ * FlexiReact Action Transform
+ * Compiles server actions for the server and for the browser.
+ *
+ * On the server, modules that define actions (`serverAction()`, a 'use server'
+ * file or exported functions starting with 'use server') get a few lines appended,
+ * which pass their exports to `registerModuleActions` once they've run. Exported
+ * actions are then known by an ID from the module path and export name.
+ *
+ * In the browser, a 'use server' module is replaced with references that call
+ * the actions by ID, so none of its code or imports ship to the client.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { buildSync } from 'esbuild';
+import type { Loader, Plugin } from 'esbuild';
+import * as babel from '@babel/core';
+
+const SOURCE_FILE = /\.(js|jsx|ts|tsx|mjs|mts)$/;
+
+/** Appended to modules that define actions, set up by the actions runtime */
+const REGISTER_CALL = 'globalThis.__FLEXI_REGISTER_MODULE_ACTIONS__?.';
+
+/** Client side of the actions, imported by the references */
+export const ACTIONS_CLIENT_PATH = fileURLToPath(new URL(`./client${import.meta.url.endsWith('.ts') ? '.ts' : '.js'}`, import.meta.url));
+
+/**
+ * Creates the ID of an exported action, from the module path relative to the
+ * project root and the export name
+ */
+export function createActionId(modulePath: string, exportName: string): string {
+  return crypto.createHash('sha256').update(`${modulePath}#${exportName}`).digest('hex').slice(0, 20);
+}
+
+/**
+ * Checks whether a module starts with 'use server', making every export an action
+ */
+export function isServerModule(source: string): boolean {
+  return /^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*(['"])use server\1/.test(source);
+}
+
+/**
+ * Checks whether a module defines server actions
+ */
+export function definesServerActions(source: string): boolean {
+  return /\bserverAction\s*\(/.test(source) || /(['"])use server\1/.test(source);
+}
+
+/**
+ * Gets the path of a module relative to the project root, which action IDs are built from
+ */
+export function getActionModulePath(projectRoot: string, filePath: string): string {
+  return path.relative(projectRoot, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Checks whether a file belongs to the project, rather than a dependency or the framework
+ */
+function isProjectModule(modulePath: string): boolean {
+  return !modulePath.startsWith('..') && !path.isAbsolute(modulePath) && !modulePath.split('/').includes('node_modules');
+}
+
+function getLoader(filePath: string): Loader {
+  const ext = path.extname(filePath);
+  return ext === '.ts' || ext === '.mts' ? 'ts' : ext === '.tsx' ? 'tsx' : 'jsx';
+}
+
+/**
+ * Parses a module with the syntax its extension allows
+ */
+function parseModule(source: string, filePath: string): babel.types.File {
+  const ext = path.extname(filePath);
+  const plugins: any[] = ext === '.ts' || ext === '.mts' ? ['typescript'] : ext === '.tsx' ? ['typescript', 'jsx'] : ['jsx'];
+
+  return babel.parseSync(source, {
+    filename: filePath,
+    babelrc: false,
+    configFile: false,
+    sourceType: 'module',
+    parserOpts: { plugins }
+  }) as babel.types.File;
+}
+
+/**
+ * Checks whether a node is a function whose body starts with 'use server'
+ */
+function isServerFunction(node: babel.types.Node | null | undefined): boolean {
+  if (!node || !['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'].includes(node.type)) {
+    return false;
+  }
+
+  const body = (node as babel.types.Function).body;
+  return body.type === 'BlockStatement' && body.directives.some((directive) => directive.value.value === 'use server');
+}
+
+/**
+ * Finds the exports of a module that are functions starting with 'use server',
+ * by export name, with the top-level name they're declared under
+ */
+function findServerFunctions(ast: babel.types.File): Map<string, string | null> {
+  const locals = new Set<string>();
+
+  for (const statement of ast.program.body) {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+
+    if (declaration?.type === 'FunctionDeclaration' && declaration.id && isServerFunction(declaration)) {
+      locals.add(declaration.id.name);
+    }
+
+    if (declaration?.type === 'VariableDeclaration') {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === 'Identifier' && isServerFunction(declarator.init)) {
+          locals.add(declarator.id.name);
+        }
+      }
+    }
+  }
+
+  const exports = new Map<string, string | null>();
+
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ExportNamedDeclaration' && !statement.source) {
+      if (statement.declaration?.type === 'FunctionDeclaration' && locals.has(statement.declaration.id!.name)) {
+        exports.set(statement.declaration.id!.name, statement.declaration.id!.name);
+      }
+
+      if (statement.declaration?.type === 'VariableDeclaration') {
+        for (const declarator of statement.declaration.declarations) {
+          if (declarator.id.type === 'Identifier' && locals.has(declarator.id.name)) {
+            exports.set(declarator.id.name, declarator.id.name);
+          }
+        }
+      }
+
+      for (const specifier of statement.specifiers) {
+        if (specifier.type !== 'ExportSpecifier' || !locals.has(specifier.local.name)) continue;
+
+        const exported = specifier.exported.type === 'Identifier' ? specifier.exported.name : specifier.exported.value;
+        exports.set(exported, specifier.local.name);
+      }
+    }
+
+    if (statement.type === 'ExportDefaultDeclaration') {
+      const { declaration } = statement;
+
+      if (declaration.type === 'Identifier' && locals.has(declaration.name)) {
+        exports.set('default', declaration.name);
+      } else if (isServerFunction(declaration)) {
+        // Named default functions are declared under their name too
+        exports.set('default', declaration.type === 'FunctionDeclaration' && declaration.id ? declaration.id.name : null);
+      }
+    }
+  }
+
+  return exports;
+}
+
+/**
+ * Gets the names a module exports functions starting with 'use server' under
+ */
+export function getServerFunctionExports(source: string, filePath: string): string[] {
+  if (!/(['"])use server\1/.test(source)) return [];
+
+  return [...findServerFunctions(parseModule(source, filePath)).keys()];
+}
+
+/**
+ * Appends the registration of a module's actions. The module imports itself to
+ * reach its exports, whatever their local names. `actionExports` are the exports
+ * that are functions starting with 'use server' (`getServerFunctionExports`).
+ * Code that already registers its actions is returned as it is: in dev, the
+ * module graph hooks get the output of the JSX loader.
+ */
+export function appendActionRegistration(
+  code: string,
+  modulePath: string,
+  specifier: string,
+  serverModule = isServerModule(code),
+  actionExports: string[] = []
+): string {
+  if (code.includes(REGISTER_CALL)) return code;
+
+  return `${code}
+import * as __flexiActionModule from ${JSON.stringify(specifier)};
+${REGISTER_CALL}(${JSON.stringify(modulePath)}, __flexiActionModule, ${serverModule}, ${JSON.stringify(actionExports)});
+`;
+}
+
+/**
+ * Gets the names a module exports, without running it
+ */
+export function getExportNames(source: string, filePath: string): string[] {
+  const result = buildSync({
+    stdin: { contents: source, loader: getLoader(filePath), sourcefile: filePath, resolveDir: path.dirname(filePath) },
+    format: 'esm',
+    write: false,
+    metafile: true,
+    logLevel: 'silent'
+  });
+
+  return Object.values(result.metafile.outputs).flatMap((output) => output.exports);
+}
+
+/**
+ * Creates the browser version of a 'use server' module: a reference to the
+ * action behind each export
+ */
+export function createServerReferenceModule(modulePath: string, exportNames: string[], clientSpecifier: string): string {
+  const references = exportNames.map((name, index) =>
+    `const __reference${index} = createServerReference(${JSON.stringify(createActionId(modulePath, name))});`
+  );
+  const exports = exportNames.map((name, index) => `__reference${index} as ${JSON.stringify(name)}`);
+
+  return `import { createServerReference } from ${JSON.stringify(clientSpecifier)};
+${references.join('\n')}
+export { ${exports.join(', ')} };
+`;
+}
+
+/**
+ * Removes the declaration of a top-level name nothing uses anymore. Exports and
+ * destructured names are kept. Returns false when it was kept.
+ */
+function removeUnusedBinding(binding: NonNullable<ReturnType<babel.NodePath['scope']['getBinding']>>): boolean {
+  const { path: declaration } = binding;
+
+  if (declaration.isImportSpecifier() || declaration.isImportDefaultSpecifier() || declaration.isImportNamespaceSpecifier()) {
+    const importDeclaration = declaration.parentPath as babel.NodePath<babel.types.ImportDeclaration>;
+    declaration.remove();
+    if (importDeclaration.node.specifiers.length === 0) importDeclaration.remove();
+    return true;
+  }
+
+  const exported = declaration.parentPath?.isExportDeclaration() || declaration.parentPath?.parentPath?.isExportDeclaration();
+  if (exported) return false;
+
+  if (declaration.isFunctionDeclaration() || declaration.isClassDeclaration()) {
+    declaration.remove();
+    return true;
+  }
+
+  if (declaration.isVariableDeclarator() && declaration.node.id.type === 'Identifier') {
+    declaration.remove();
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Creates the browser version of a module that exports functions starting with
+ * 'use server': each of them becomes a reference to its action, and the imports
+ * and helpers only they used are dropped. The rest of the module is kept as it is.
+ */
+export function replaceServerFunctions(source: string, filePath: string, modulePath: string, clientSpecifier: string): string {
+  if (!/(['"])use server\1/.test(source)) return source;
+
+  const ast = parseModule(source, filePath);
+  const serverFunctions = findServerFunctions(ast);
+  if (serverFunctions.size === 0) return source;
+
+  const t = babel.types;
+
+  // The export each top-level function is known by on the server, where the last one registers it
+  const locals = new Map<string, string>();
+  for (const [exported, local] of serverFunctions) {
+    if (local) locals.set(local, exported);
+  }
+
+  const reference = (exported: string) => t.callExpression(
+    t.identifier('__flexiCreateServerReference'),
+    [t.stringLiteral(createActionId(modulePath, exported))]
+  );
+
+  const result = babel.transformFromAstSync(ast, source, {
+    filename: filePath,
+    babelrc: false,
+    configFile: false,
+    // Keeps the rest of the module on its lines, for source maps
+    retainLines: true,
+    plugins: [() => ({
+      visitor: {
+        Program(program) {
+          // Top-level names in use before the actions are replaced
+          const referenced = new Set(Object.keys(program.scope.bindings).filter((name) => program.scope.getBinding(name)?.referenced));
+
+          for (const statement of program.get('body')) {
+            const target = statement.isExportNamedDeclaration() || statement.isExportDefaultDeclaration()
+              ? statement.get('declaration') as babel.NodePath
+              : statement;
+
+            if (target.isFunctionDeclaration() && target.node.id && locals.has(target.node.id.name)) {
+              const name = target.node.id.name;
+              target.replaceWith(t.variableDeclaration('const', [t.variableDeclarator(t.identifier(name), reference(locals.get(name)!))]));
+            } else if (target.isVariableDeclaration()) {
+              for (const declarator of target.get('declarations')) {
+                const id = declarator.node.id;
+                if (id.type === 'Identifier' && locals.has(id.name) && isServerFunction(declarator.node.init)) {
+                  declarator.get('init').replaceWith(reference(locals.get(id.name)!));
+                }
+              }
+            } else if (statement.isExportDefaultDeclaration() && serverFunctions.get('default') === null) {
+              target.replaceWith(reference('default'));
+            }
+          }
+
+          program.unshiftContainer('body', t.importDeclaration(
+            [t.importSpecifier(t.identifier('__flexiCreateServerReference'), t.identifier('createServerReference'))],
+            t.stringLiteral(clientSpecifier)
+          ));
+
+          // Imports and helpers only the actions used would otherwise still ship to the browser
+          let removed = true;
+          while (removed) {
+            removed = false;
+            program.scope.crawl();
+
+            for (const name of referenced) {
+              const binding = program.scope.getBinding(name);
+              if (binding?.referenced || (binding && !removeUnusedBinding(binding))) continue;
+
+              referenced.delete(name);
+              removed = true;
+            }
+          }
+        }
+      }
+    })]
+  });
+
+  return result!.code!;
+}
+
+/**
+ * Finds the project files that define server actions, skipping dependencies,
+ * dot directories and the given ones (build output, public assets)
+ */
+export function findActionModules(projectRoot: string, ignore: string[] = []): string[] {
+  const ignored = new Set(ignore.map((dir) => path.resolve(dir)));
+  const modules: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!ignored.has(fullPath)) walk(fullPath);
+      } else if (SOURCE_FILE.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+        if (definesServerActions(fs.readFileSync(fullPath, 'utf-8'))) {
+          modules.push(fullPath);
+        }
+      }
+    }
+  };
+
+  walk(projectRoot);
+  return modules;
+}
+
+/**
+ * esbuild plugin for the server build: appends the action registration to project modules
+ */
+export function serverActionsPlugin(projectRoot: string): Plugin {
+  return {
+    name: 'flexi-server-actions',
+    setup(build) {
+      build.onLoad({ filter: SOURCE_FILE }, (args) => {
+        const modulePath = getActionModulePath(projectRoot, args.path);
+        if (!isProjectModule(modulePath)) return;
+
+        const source = fs.readFileSync(args.path, 'utf-8');
+        if (!definesServerActions(source)) return;
+
+        return {
+          contents: appendActionRegistration(
+            source,
+            modulePath,
+            `./${path.basename(args.path)}`,
+            isServerModule(source),
+            getServerFunctionExports(source, args.path)
+          ),
+          loader: getLoader(args.path),
+          resolveDir: path.dirname(args.path)
+        };
+      });
+    }
+  };
+}
+
+/**
+ * esbuild plugin for client bundles: replaces 'use server' modules, and the
+ * exported functions starting with 'use server', with references
+ */
+export function serverReferencesPlugin(projectRoot: string): Plugin {
+  return {
+    name: 'flexi-server-references',
+    setup(build) {
+      build.onLoad({ filter: SOURCE_FILE }, (args) => {
+        const modulePath = getActionModulePath(projectRoot, args.path);
+        if (!isProjectModule(modulePath)) return;
+
+        const source = fs.readFileSync(args.path, 'utf-8');
+
+        if (isServerModule(source)) {
+          return {
+            contents: createServerReferenceModule(modulePath, getExportNames(source, args.path), ACTIONS_CLIENT_PATH),
+            loader: 'js',
+            resolveDir: path.dirname(args.path)
+          };
+        }
+
+        const contents = replaceServerFunctions(source, args.path, modulePath, ACTIONS_CLIENT_PATH);
+        if (contents === source) return;
+
+        return {
+          contents,
+          loader: getLoader(args.path),
+          resolveDir: path.dirname(args.path)
+        };
+      });
+    }
+  };
+}
+
+export default {
+  createActionId,
+  isServerModule,
+  definesServerActions,
+  getActionModulePath,
+  getServerFunctionExports,
+  appendActionRegistration,
+  getExportNames,
+  createServerReferenceModule,
+  replaceServerFunctions,
+  findActionModules,
+  serverActionsPlugin,
+  serverReferencesPlugin,
+  ACTIONS_CLIENT_PATH
+};
@@ -4,11 +4,19 @@
  */
 
 import * as esbuild from 'esbuild';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 import { findFiles, ensureDir, cleanDir, generateHash, isClientComponent, isIsland } from '../utils.js';
-import { buildRouteTree } from '../router/index.js';
+import { buildRouteTree, getRouteTreeFiles, serializeRouteTree } from '../router/index.js';
+import { writeRouteTypes } from '../router/typegen.js';
+import { findUnknownMatchers, createRouteError } from '../router/diagnostics.js';
+import { generateStaticSite } from '../ssg/index.js';
+import { getCompressionOptions, precompressDirectory } from '../compression/index.js';
+import { getCSPOptions, getNoncePlaceholder } from '../csp/index.js';
+import { registerModuleActions, setActionSigningKey } from '../actions/index.js';
+import { findActionModules, getActionModulePath, serverActionsPlugin, serverReferencesPlugin } from '../actions/transform.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -48,38 +56,91 @@ export async function build(options) {
 
   // Build routes
   const routes = buildRouteTree(config.pagesDir, config.layoutsDir);
+
+  // Two files resolving to the same route would make one of them unreachable,
+  // and a matcher missing from the config would fail every request to its route
+  const diagnostics = [
+    ...(routes.diagnostics || []),
+    ...findUnknownMatchers([...routes.api, ...routes.flexiRoutes, ...routes.appRoutes, ...routes.pages], config.matchers, projectRoot)
+  ];
+  if (diagnostics.some((diagnostic) => diagnostic.type !== 'shadowed')) {
+    throw createRouteError(diagnostics);
+  }
+
+  for (const diagnostic of diagnostics) {
+    console.warn(`  ⚠ ${diagnostic.message}`);
+  }
+
+  // Route types for Link, router.push(), redirect() and useParams()
+  writeRouteTypes(routes, outDir);
   
   // Find all client components and islands
-  const clientEntries = findClientEntries(config.pagesDir, config.layoutsDir);
+  const clientEntries = findClientEntries(projectRoot, config.pagesDir, config.layoutsDir);
   
   // Build client bundle
   console.log('📦 Building client bundle...');
   const clientResult = await buildClient({
     entries: clientEntries,
     outDir: path.join(outDir, 'client'),
+    projectRoot,
     config,
     isDev
   });
 
+  // Modules with server actions are built on their own, so the server can load them by action ID
+  const actionModules = findActionModules(projectRoot, [outDir, config.publicDir]);
+
   // Build server bundle
   console.log('📦 Building server bundle...');
   const serverResult = await buildServer({
-    pagesDir: config.pagesDir,
-    layoutsDir: config.layoutsDir,
+    entries: [...new Set([...getRouteTreeFiles(routes), ...actionModules])],
     outDir: path.join(outDir, 'server'),
+    projectRoot,
     config,
     isDev
   });
 
+  const actions = await collectActions(actionModules, serverResult, outDir, projectRoot);
+
+  // Identifies this build to the servers running it
+  const buildId = crypto.randomBytes(16).toString('hex');
+
+  // Prerendered forms carry bound arguments signed with the key of the servers
+  setActionSigningKey(config.actions?.secret || buildId);
+
+  // Pre-render static pages from the compiled server modules
+  if (config.ssg.enabled) {
+    await generateStaticSite({
+      routes: await findStaticRoutes(routes, serverResult, outDir, projectRoot),
+      layouts: routes.layouts,
+      outDir,
+      config,
+      // The server swaps in the nonce of each response
+      nonce: getCSPOptions(config) ? getNoncePlaceholder(buildId) : undefined,
+      loadModule: (filePath) => importServerModule(serverResult, outDir, projectRoot, filePath)
+    });
+  }
+
   // Copy public assets
   console.log('📁 Copying public assets...');
   await copyPublicAssets(config.publicDir, path.join(outDir, 'static'));
 
+  // Brotli and gzip copies of the assets, sent as they are by the server
+  const compression = getCompressionOptions(config);
+  if (compression) {
+    console.log('🗜️  Compressing assets...');
+    precompressDirectory(path.join(outDir, 'client'), compression.threshold);
+    precompressDirectory(path.join(outDir, 'static'), compression.threshold);
+  }
+
   // Generate manifest
   const manifest = generateManifest({
     routes,
     clientResult,
     serverResult,
+    actions,
+    buildId,
+    projectRoot,
     config
   });
   
@@ -94,6 +155,7 @@ export async function build(options) {
   console.log(`  Duration: ${duration}ms`);
   console.log(`  Client chunks: ${clientResult.outputs.length}`);
   console.log(`  Server modules: ${serverResult.outputs.length}`);
+  console.log(`  Server actions: ${Object.keys(actions).length}`);
   console.log('');
 
   // Generate bundle analysis if requested
@@ -175,9 +237,14 @@ function generateBundleAnalysis(clientResult, serverResult, outDir) {
 /**
  * Finds all client component entries
  */
-function findClientEntries(pagesDir, layoutsDir) {
+function findClientEntries(projectRoot, pagesDir, layoutsDir) {
   const entries = [];
-  const dirs = [pagesDir, layoutsDir].filter(d => fs.existsSync(d));
+  const dirs = [
+    path.join(projectRoot, 'routes'),
+    path.join(projectRoot, 'app'),
+    pagesDir,
+    layoutsDir
+  ].filter(d => fs.existsSync(d));
 
   for (const dir of dirs) {
     const files = findFiles(dir, /\.(jsx|tsx)$/);
@@ -192,14 +259,49 @@ function findClientEntries(pagesDir, layoutsDir) {
   return entries;
 }
 
+/**
+ * Finds a FlexiReact client module, compiled (.js) or from source (.ts)
+ */
+function findClientModule(name) {
+  for (const ext of ['.js', '.ts']) {
+    const modulePath = path.join(__dirname, '..', 'client', `${name}${ext}`);
+    if (fs.existsSync(modulePath)) {
+      return modulePath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Maps each entry point of an esbuild metafile to its output file,
+ * keyed by path relative to the project root
+ */
+function mapEntryOutputs(metafile, projectRoot, outDir) {
+  const entries: Record<string, string> = {};
+
+  for (const [outputPath, output] of Object.entries<any>(metafile.outputs)) {
+    if (!output.entryPoint || outputPath.endsWith('.map')) continue;
+
+    const source = path.relative(projectRoot, path.resolve(projectRoot, output.entryPoint)).replace(/\\/g, '/');
+
+    // Framework entries (runtime, hydration) live outside the project
+    if (source.startsWith('..')) continue;
+
+    entries[source] = path.relative(outDir, path.resolve(projectRoot, outputPath)).replace(/\\/g, '/');
+  }
+
+  return entries;
+}
+
 /**
  * Builds client-side JavaScript
  */
 async function buildClient(options) {
-  const { entries, outDir, config, isDev } = options;
+  const { entries, outDir, projectRoot, config, isDev } = options;
 
   if (entries.length === 0) {
-    return { outputs: [] };
+    return { outputs: [], entries: {} };
   }
 
   // Create entry points map
@@ -211,11 +313,17 @@ async function buildClient(options) {
   }
 
   // Add runtime entry
-  const runtimePath = path.join(__dirname, '..', 'client', 'runtime.js');
-  if (fs.existsSync(runtimePath)) {
+  const runtimePath = findClientModule('runtime');
+  if (runtimePath) {
     entryPoints['runtime'] = runtimePath;
   }
 
+  // Add hydration entry, sharing React with the component chunks
+  const hydrationPath = findClientModule('hydration');
+  if (hydrationPath) {
+    entryPoints['hydration'] = hydrationPath;
+  }
+
   try {
     const result = await esbuild.build({
       entryPoints,
@@ -223,6 +331,9 @@ async function buildClient(options) {
       splitting: true,
       format: 'esm',
       outdir: outDir,
+      // Every client file is named after its content, so the server can mark them immutable
+      entryNames: '[name]-[hash]',
+      absWorkingDir: projectRoot,
       minify: !isDev && config.build.minify,
       sourcemap: config.build.sourcemap,
       target: config.build.target,
@@ -230,13 +341,15 @@ async function buildClient(options) {
       jsxImportSource: 'react',
       metafile: true,
       external: [],
+      // 'use server' modules become references to the actions, their code stays on the server
+      plugins: [serverReferencesPlugin(projectRoot)],
       define: {
         'process.env.NODE_ENV': JSON.stringify(isDev ? 'development' : 'production')
       },
       loader: {
         '.js': 'jsx',
         '.jsx': 'jsx',
-        '.ts': 'tsx',
+        '.ts': 'ts',
         '.tsx': 'tsx'
       }
     });
@@ -246,7 +359,17 @@ async function buildClient(options) {
       size: result.metafile.outputs[file].bytes
     }));
 
-    return { outputs, metafile: result.metafile };
+    const entries = mapEntryOutputs(result.metafile, projectRoot, outDir);
+
+    const hydrationOutput = hydrationPath && Object.entries<any>(result.metafile.outputs)
+      .find(([, output]) => output.entryPoint && path.resolve(projectRoot, output.entryPoint) === path.resolve(hydrationPath));
+
+    return {
+      outputs,
+      entries,
+      hydration: hydrationOutput ? path.relative(outDir, path.resolve(projectRoot, hydrationOutput[0])).replace(/\\/g, '/') : null,
+      metafile: result.metafile
+    };
 
   } catch (error) {
     console.error('Client build failed:', error);
@@ -258,57 +381,48 @@ async function buildClient(options) {
  * Builds server-side modules
  */
 async function buildServer(options) {
-  const { pagesDir, layoutsDir, outDir, config, isDev } = options;
-
-  const entries = [];
-  
-  // Find all page and layout files
-  for (const dir of [pagesDir, layoutsDir]) {
-    if (fs.existsSync(dir)) {
-      entries.push(...findFiles(dir, /\.(jsx|tsx|js|ts)$/));
-    }
-  }
+  const { entries, outDir, projectRoot, config, isDev } = options;
 
   if (entries.length === 0) {
-    return { outputs: [] };
-  }
-
-  // Create entry points
-  const entryPoints = {};
-  for (const entry of entries) {
-    const relativePath = path.relative(pagesDir, entry);
-    const name = relativePath.replace(/[\/\\]/g, '_').replace(/\.(jsx|tsx|js|ts)$/, '');
-    entryPoints[name] = entry;
+    return { outputs: [], entries: {} };
   }
 
   try {
+    // Mirror the project layout so every source file maps to one module
     const result = await esbuild.build({
-      entryPoints,
+      entryPoints: entries,
       bundle: true,
+      splitting: true,
       format: 'esm',
       platform: 'node',
       outdir: outDir,
+      outbase: projectRoot,
+      absWorkingDir: projectRoot,
+      chunkNames: '_chunks/[name]-[hash]',
       minify: false, // Keep server code readable
-      sourcemap: true,
+      sourcemap: 'inline', // Read by the server to map stack traces to the original source
       target: 'node18',
       jsx: 'automatic',
       jsxImportSource: 'react',
       metafile: true,
       packages: 'external', // Don't bundle node_modules
+      plugins: [serverActionsPlugin(projectRoot)],
       loader: {
         '.js': 'jsx',
         '.jsx': 'jsx',
-        '.ts': 'tsx',
+        '.ts': 'ts',
         '.tsx': 'tsx'
       }
     });
 
     const outputs = Object.keys(result.metafile.outputs).map(file => ({
-      file: path.basename(file),
+      file: path.relative(outDir, path.resolve(projectRoot, file)),
       size: result.metafile.outputs[file].bytes
     }));
 
-    return { outputs, metafile: result.metafile };
+    const entryOutputs = mapEntryOutputs(result.metafile, projectRoot, outDir);
+
+    return { outputs, entries: entryOutputs, metafile: result.metafile };
 
   } catch (error) {
     console.error('Server build failed:', error);
@@ -316,6 +430,52 @@ async function buildServer(options) {
   }
 }
 
+/**
+ * Imports the compiled server module of a source file
+ */
+async function importServerModule(serverResult, outDir, projectRoot, filePath) {
+  const source = path.relative(projectRoot, filePath).replace(/\\/g, '/');
+  const output = serverResult.entries[source];
+
+  if (!output) {
+    throw new Error(`No server module was built for ${source}`);
+  }
+
+  return import(pathToFileURL(path.join(outDir, 'server', output)).href);
+}
+
+/**
+ * Loads the compiled modules that define server actions, for the action manifest
+ */
+async function collectActions(actionModules, serverResult, outDir, projectRoot) {
+  const actions = {};
+
+  for (const filePath of actionModules) {
+    const module = await importServerModule(serverResult, outDir, projectRoot, filePath);
+    Object.assign(actions, registerModuleActions(getActionModulePath(projectRoot, filePath), module));
+  }
+
+  return actions;
+}
+
+/**
+ * Finds the page routes that can be pre-rendered.
+ * Pages with getServerSideProps or `revalidate` are rendered by the server.
+ */
+async function findStaticRoutes(routes, serverResult, outDir, projectRoot) {
+  const staticRoutes = [];
+
+  for (const route of [...routes.flexiRoutes, ...routes.appRoutes, ...routes.pages]) {
+    const module = await importServerModule(serverResult, outDir, projectRoot, route.filePath);
+
+    if (!module.getServerSideProps && module.revalidate === undefined) {
+      staticRoutes.push(route);
+    }
+  }
+
+  return staticRoutes;
+}
+
 /**
  * Copies public assets to output directory
  */
@@ -348,30 +508,23 @@ async function copyPublicAssets(publicDir, outDir) {
  * Generates build manifest
  */
 function generateManifest(options) {
-  const { routes, clientResult, serverResult, config } = options;
+  const { routes, clientResult, serverResult, actions, buildId, projectRoot, config } = options;
 
   return {
     version: '2.0.0',
+    buildId,
     generatedAt: new Date().toISOString(),
-    routes: {
-      pages: routes.pages.map(r => ({
-        path: r.path,
-        file: r.filePath,
-        hasLayout: !!r.layout,
-        hasLoading: !!r.loading,
-        hasError: !!r.error
-      })),
-      api: routes.api.map(r => ({
-        path: r.path,
-        file: r.filePath
-      }))
-    },
+    routes: serializeRouteTree(routes, projectRoot),
     client: {
-      chunks: clientResult.outputs || []
+      chunks: clientResult.outputs || [],
+      entries: clientResult.entries || {},
+      hydration: clientResult.hydration || null
     },
     server: {
-      modules: serverResult.outputs || []
+      modules: serverResult.outputs || [],
+      entries: serverResult.entries || {}
     },
+    actions,
     config: {
       islands: config.islands.enabled,
       rsc: config.rsc.enabled
@@ -6,10 +6,11 @@
  */
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { Href } from '../types.js';
 
 export interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
-  /** The URL to navigate to */
-  href: string;
+  /** The URL to navigate to (checked against the generated route types) */
+  href: Href;
   /** Prefetch the page on hover/visibility */
   prefetch?: boolean | 'hover' | 'viewport';
   /** Replace the current history entry instead of pushing */
@@ -316,13 +317,13 @@ export function Link({
  */
 export function useRouter() {
   return {
-    push(url: string, options?: { scroll?: boolean }) {
+    push(url: Href, options?: { scroll?: boolean }) {
       navigate(url, { replace: false, scroll: options?.scroll ?? true });
       // Trigger page reload for now (full SPA navigation requires more work)
       window.location.href = url;
     },
 
-    replace(url: string, options?: { scroll?: boolean }) {
+    replace(url: Href, options?: { scroll?: boolean }) {
       navigate(url, { replace: true, scroll: options?.scroll ?? true });
       window.location.href = url;
     },
@@ -335,7 +336,7 @@ export function useRouter() {
       window.history.forward();
     },
 
-    prefetch(url: string) {
+    prefetch(url: Href) {
       if (isInternalUrl(url)) {
         prefetchUrl(url);
       }
@@ -0,0 +1,116 @@
+/**
+ * FlexiReact Error Boundary
+ * Catches errors in a route segment and renders its error.tsx. `reset()`
+ * re-mounts the segment, on the server and once hydrated.
+ */
+
+import React from 'react';
+
+export interface ErrorBoundaryProps {
+  fallback: React.ComponentType<{ error: any; reset: () => void }>;
+  /** Starts out showing the fallback, for segments that failed on the server */
+  failed?: boolean;
+  error?: any;
+  children?: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+  error: any;
+  /** Bumped by reset(), so the segment mounts again from scratch */
+  resetKey: number;
+}
+
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  constructor(props: ErrorBoundaryProps) {
+    super(props);
+    this.state = { hasError: !!props.failed, error: props.error ?? null, resetKey: 0 };
+    this.reset = this.reset.bind(this);
+  }
+
+  static getDerivedStateFromError(error: any) {
+    return { hasError: true, error };
+  }
+
+  // Clears the error and re-mounts the segment
+  reset() {
+    this.setState((state) => ({ hasError: false, error: null, resetKey: state.resetKey + 1 }));
+  }
+
+  render() {
+    if (this.state.hasError) {
+      return React.createElement(this.props.fallback, { error: this.state.error, reset: this.reset });
+    }
+    return React.createElement(React.Fragment, { key: this.state.resetKey }, this.props.children);
+  }
+}
+
+/**
+ * Fetches the page again and renders its content, for segments that were
+ * rendered on the server. Throws to the boundary when the page fails again.
+ */
+export function ServerSegment() {
+  const [segment, setSegment] = React.useState<{ html?: string; error?: any } | null>(null);
+
+  React.useEffect(() => {
+    let active = true;
+
+    fetchSegment(window.location.href).then(
+      (html) => active && setSegment({ html }),
+      (error) => active && setSegment({ error })
+    );
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    // Hydrate the islands of the new content
+    if (segment?.html !== undefined) {
+      window.dispatchEvent(new CustomEvent('flexi:pageload'));
+    }
+  }, [segment]);
+
+  if (segment?.error) {
+    throw segment.error;
+  }
+
+  return segment
+    ? React.createElement('div', { style: { display: 'contents' }, dangerouslySetInnerHTML: { __html: segment.html } })
+    : null;
+}
+
+async function fetchSegment(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: { 'X-Flexi-Navigation': 'true' },
+    cache: 'no-store'
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to render ${new URL(url).pathname}: ${response.status}`);
+  }
+
+  const doc = new DOMParser().parseFromString(await response.text(), 'text/html');
+  document.title = doc.title;
+
+  return doc.getElementById('root')?.innerHTML ?? '';
+}
+
+/**
+ * Element for a not-found or error page rendered on the server: the page as
+ * the fallback of a boundary around the segment that failed
+ */
+export function createErrorPageElement(Component, props: Record<string, any> = {}) {
+  return React.createElement(
+    ErrorBoundary,
+    { fallback: Component, failed: true, error: props.error ?? null },
+    React.createElement(ServerSegment)
+  );
+}
+
+export default {
+  ErrorBoundary,
+  ServerSegment,
+  createErrorPageElement
+};
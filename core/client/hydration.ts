@@ -5,6 +5,8 @@
 
 import React from 'react';
 import { hydrateRoot, createRoot } from 'react-dom/client';
+import { deserialize } from '../serialize/index.js';
+import { createErrorPageElement } from './error-boundary.js';
 
 // Extend Window interface for __FLEXI_DATA__
 declare global {
@@ -12,6 +14,12 @@ declare global {
     __FLEXI_DATA__?: {
       islands?: any[];
       props?: Record<string, any>;
+      /** `useActionState` state after a form was posted without JavaScript */
+      formState?: any;
+    };
+    /** Error overlay, only present in dev */
+    __FLEXI_OVERLAY__?: {
+      report: (error: unknown, options?: { source?: string; componentStack?: string }) => void;
     };
   }
 }
@@ -39,6 +47,7 @@ export function hydrateIsland(islandId, Component, props) {
       if (process.env.NODE_ENV === 'development') {
         console.debug('Component stack:', errorInfo.componentStack);
       }
+      window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration', componentStack: errorInfo.componentStack });
     }
   });
 
@@ -67,13 +76,41 @@ export function hydrateApp(App, props = {}) {
   const mergedProps = { ...serverProps, ...props };
 
   try {
-    hydrateRoot(root, React.createElement(App, mergedProps));
+    hydrateRoot(root, React.createElement(App, mergedProps), {
+      // Picks up the state the server rendered the form with
+      formState: window.__FLEXI_DATA__?.formState ?? null,
+      onRecoverableError: (error, errorInfo) => {
+        console.error(error);
+        window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration', componentStack: errorInfo.componentStack });
+      }
+    });
   } catch (error) {
     console.error('Hydration failed, falling back to full render:', error);
+    window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration' });
     createRoot(root).render(React.createElement(App, mergedProps));
   }
 }
 
+/**
+ * Hydrates a not-found or error page rendered on the server. Its `reset()`
+ * re-mounts the segment that failed, which renders it again on the server.
+ */
+export function hydrateErrorPage(ErrorPage, props = {}) {
+  const root = document.getElementById('root');
+
+  if (!root) {
+    console.error('Root element not found');
+    return;
+  }
+
+  hydrateRoot(root, createErrorPageElement(ErrorPage, props), {
+    onRecoverableError: (error, errorInfo) => {
+      console.error(error);
+      window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration', componentStack: errorInfo.componentStack });
+    }
+  });
+}
+
 /**
  * Hydrates all islands on the page
  */
@@ -88,7 +125,7 @@ export async function hydrateAllIslands(islandModules) {
     const propsJson = element.getAttribute('data-island-props');
 
     try {
-      const props = propsJson ? JSON.parse(propsJson) : {};
+      const props = propsJson ? deserialize(propsJson) : {};
       const module = islandModules[islandName];
 
       if (module) {
@@ -117,7 +154,7 @@ export function setupProgressiveHydration(islandModules) {
         const propsJson = element.getAttribute('data-island-props');
 
         try {
-          const props = propsJson ? JSON.parse(propsJson) : {};
+          const props = propsJson ? deserialize(propsJson) : {};
           const module = await islandModules[islandName]();
 
           hydrateIsland(islandId, module.default || module, props);
@@ -140,6 +177,7 @@ export function setupProgressiveHydration(islandModules) {
 export default {
   hydrateIsland,
   hydrateApp,
+  hydrateErrorPage,
   hydrateAllIslands,
   setupProgressiveHydration
 };
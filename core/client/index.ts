@@ -3,7 +3,8 @@
  * Handles hydration, navigation, and client-side interactivity
  */
 
-export { hydrateIsland, hydrateApp } from './hydration.js';
+export { hydrateIsland, hydrateApp, hydrateErrorPage } from './hydration.js';
+export { ErrorBoundary } from './error-boundary.js';
 export { navigate, prefetch, Link as NavLink } from './navigation.js';
 export { useIsland, IslandBoundary } from './islands.js';
 
@@ -18,6 +18,7 @@ declare global {
     __FLEXI_DATA__?: {
       islands?: any[];
       props?: Record<string, any>;
+      formState?: any;
     };
   }
 }
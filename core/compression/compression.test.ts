@@ -0,0 +1,229 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { negotiateEncoding, addVary, isCompressible, compressResponse } from './index.js';
+
+describe('negotiateEncoding', () => {
+  test('prefers brotli, then gzip, when both are accepted', () => {
+    assert.equal(negotiateEncoding('gzip, deflate, br'), 'br');
+    assert.equal(negotiateEncoding('gzip, deflate'), 'gzip');
+  });
+
+  test('follows q-values', () => {
+    assert.equal(negotiateEncoding('br;q=0.5, gzip;q=0.8'), 'gzip');
+    assert.equal(negotiateEncoding('br;q=0, gzip'), 'gzip');
+    assert.equal(negotiateEncoding('gzip;q=0, br;q=0'), null);
+  });
+
+  test('applies the wildcard to encodings not listed', () => {
+    assert.equal(negotiateEncoding('*'), 'br');
+    assert.equal(negotiateEncoding('br;q=0, *;q=0.1'), 'gzip');
+  });
+
+  test('only picks available encodings', () => {
+    assert.equal(negotiateEncoding('br, gzip', ['gzip']), 'gzip');
+    assert.equal(negotiateEncoding('br', ['gzip']), null);
+  });
+
+  test('sends identity without an Accept-Encoding header', () => {
+    assert.equal(negotiateEncoding(undefined), null);
+    assert.equal(negotiateEncoding('identity'), null);
+  });
+
+  test('reads repeated headers', () => {
+    assert.equal(negotiateEncoding(['gzip;q=0.5', 'br;q=0.4']), 'gzip');
+  });
+});
+
+describe('addVary', () => {
+  const createResponse = (vary?: string) => {
+    const headers: Record<string, any> = vary ? { vary } : {};
+    return {
+      headers,
+      getHeader: (name: string) => headers[name.toLowerCase()],
+      setHeader: (name: string, value: any) => { headers[name.toLowerCase()] = value; }
+    };
+  };
+
+  test('appends to the fields already there, once', () => {
+    const res = createResponse('Cookie');
+    addVary(res, 'Accept-Encoding');
+    addVary(res, 'accept-encoding');
+    assert.equal(res.headers.vary, 'Cookie, Accept-Encoding');
+  });
+
+  test('leaves Vary: * alone', () => {
+    const res = createResponse('*');
+    addVary(res, 'Accept-Encoding');
+    assert.equal(res.headers.vary, '*');
+  });
+});
+
+test('isCompressible accepts text types only', () => {
+  assert.equal(isCompressible('text/html; charset=utf-8'), true);
+  assert.equal(isCompressible('application/json'), true);
+  assert.equal(isCompressible('image/svg+xml'), true);
+  assert.equal(isCompressible('image/png'), false);
+  assert.equal(isCompressible(undefined), false);
+});
+
+describe('compressResponse', () => {
+  let server: http.Server;
+  let port: number;
+  let handler: (req, res) => void;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      compressResponse(req, res, { threshold: 100 });
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as any).port;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const request = (acceptEncoding = 'gzip', options: { method?: string; delay?: number } = {}) =>
+    new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: Buffer }>((resolve, reject) => {
+      const req = http.request({ port, host: '127.0.0.1', method: options.method || 'GET', headers: { 'accept-encoding': acceptEncoding } }, (res) => {
+        const chunks: Buffer[] = [];
+        // A slow reader, so the socket fills up
+        if (options.delay) {
+          res.pause();
+          setTimeout(() => res.resume(), options.delay);
+        }
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: Buffer.concat(chunks) }));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+  const decode = (response) => response.headers['content-encoding'] === 'br'
+    ? zlib.brotliDecompressSync(response.body)
+    : response.headers['content-encoding'] === 'gzip' ? zlib.gunzipSync(response.body) : response.body;
+
+  const page = 'x'.repeat(500);
+
+  test('compresses responses sent with res.end', async () => {
+    handler = (req, res) => {
+      res.setHeader('Content-Type', 'text/html');
+      res.setHeader('ETag', '"abc"');
+      res.end(page);
+    };
+
+    const response = await request('br');
+    assert.equal(response.headers['content-encoding'], 'br');
+    assert.equal(response.headers['vary'], 'Accept-Encoding');
+    assert.equal(response.headers['etag'], 'W/"abc"');
+    assert.equal(decode(response).toString(), page);
+  });
+
+  test('sends small responses as they are', async () => {
+    handler = (req, res) => {
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('small');
+    };
+
+    const response = await request('gzip');
+    assert.equal(response.headers['content-encoding'], undefined);
+    assert.equal(response.body.toString(), 'small');
+  });
+
+  test('sends the headers in writeHead', async () => {
+    let headersSent: boolean[] = [];
+
+    handler = (req, res) => {
+      headersSent.push(res.headersSent);
+      res.writeHead(201, { 'Content-Type': 'application/json', 'X-Test': 'yes' });
+      headersSent.push(res.headersSent);
+      res.end(JSON.stringify({ page }));
+    };
+
+    const response = await request('gzip');
+    assert.deepEqual(headersSent, [false, true]);
+    assert.equal(response.status, 201);
+    assert.equal(response.headers['x-test'], 'yes');
+    assert.equal(response.headers['content-encoding'], 'gzip');
+    assert.deepEqual(JSON.parse(decode(response).toString()), { page });
+  });
+
+  test('measures Content-Length from writeHead against the threshold', async () => {
+    handler = (req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Length': '5' });
+      res.end('small');
+    };
+
+    const response = await request('gzip');
+    assert.equal(response.headers['content-encoding'], undefined);
+    assert.equal(response.headers['content-length'], '5');
+  });
+
+  test('keeps repeated headers given to writeHead as raw pairs', async () => {
+    handler = (req, res) => {
+      res.writeHead(200, ['Content-Type', 'text/plain', 'Set-Cookie', 'a=1', 'Set-Cookie', 'b=2']);
+      res.end(page);
+    };
+
+    const response = await request('gzip');
+    assert.deepEqual(response.headers['set-cookie'], ['a=1', 'b=2']);
+    assert.equal(decode(response).toString(), page);
+  });
+
+  test('skips encoded, no-transform, binary and HEAD responses', async () => {
+    const cases: Array<[Record<string, string>, string?]> = [
+      [{ 'Content-Type': 'text/plain', 'Content-Encoding': 'br' }],
+      [{ 'Content-Type': 'text/plain', 'Cache-Control': 'no-transform' }],
+      [{ 'Content-Type': 'image/png' }],
+      [{ 'Content-Type': 'text/plain' }, 'HEAD']
+    ];
+
+    for (const [headers, method] of cases) {
+      handler = (req, res) => {
+        res.writeHead(200, headers);
+        res.end(page);
+      };
+
+      const response = await request('gzip', { method });
+      assert.equal(response.headers['content-encoding'], headers['Content-Encoding'], JSON.stringify(headers));
+    }
+  });
+
+  test('propagates backpressure through the compression stream', async () => {
+    const chunk = crypto.randomBytes(64 * 1024).toString('base64');
+    const count = 256;
+    let refused = 0;
+    let drainedWhileFull = 0;
+
+    handler = (req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      let sent = 0;
+
+      const writeMore = () => {
+        if (res.socket.writableNeedDrain) drainedWhileFull++;
+
+        while (sent < count) {
+          sent++;
+          if (!res.write(chunk)) {
+            refused++;
+            res.once('drain', writeMore);
+            return;
+          }
+        }
+        res.end();
+      };
+
+      writeMore();
+    };
+
+    const response = await request('gzip', { delay: 200 });
+    assert.equal(response.headers['content-encoding'], 'gzip');
+    assert.equal(decode(response).toString(), chunk.repeat(count));
+    assert.ok(refused > 0);
+    assert.equal(drainedWhileFull, 0);
+  });
+});
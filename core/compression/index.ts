@@ -0,0 +1,320 @@
+/**
+ * FlexiReact Compression
+ * Brotli and gzip for server responses, negotiated from Accept-Encoding.
+ * Static assets are compressed once by `flexi build`, everything else on the fly.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+export type Encoding = 'br' | 'gzip';
+
+export interface CompressionOptions {
+  enabled?: boolean;
+  /** Responses smaller than this many bytes are sent as they are */
+  threshold?: number;
+}
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+/** File extension of each encoding's precompressed files */
+export const ENCODING_EXTENSIONS: Record<Encoding, string> = {
+  br: '.br',
+  gzip: '.gz'
+};
+
+const COMPRESSIBLE_TYPE = /^(text\/|application\/(json|javascript|xml|manifest\+json)|image\/svg\+xml)/i;
+
+const COMPRESSIBLE_EXTENSIONS = new Set(['.html', '.js', '.mjs', '.css', '.json', '.svg', '.xml', '.txt', '.map', '.webmanifest']);
+
+/**
+ * Checks whether a content type is worth compressing (text, JSON, JS, SVG)
+ */
+export function isCompressible(contentType: unknown): boolean {
+  return typeof contentType === 'string' && COMPRESSIBLE_TYPE.test(contentType);
+}
+
+/**
+ * Picks the encoding the client prefers among `available`, from an
+ * Accept-Encoding header (`br;q=1.0, gzip;q=0.8, *;q=0.1`).
+ * On equal preference, the order of `available` wins.
+ */
+export function negotiateEncoding(acceptEncoding: string | string[] | undefined, available: Encoding[] = ['br', 'gzip']): Encoding | null {
+  const header = Array.isArray(acceptEncoding) ? acceptEncoding.join(',') : acceptEncoding;
+  if (!header) return null;
+
+  const preferences = new Map<string, number>();
+
+  for (const part of header.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    if (!name) continue;
+
+    const qParam = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+    const q = qParam ? Number(qParam.slice(2)) : 1;
+    preferences.set(name, Number.isNaN(q) ? 0 : q);
+  }
+
+  let best: Encoding | null = null;
+  let bestQ = 0;
+
+  for (const encoding of available) {
+    const q = preferences.get(encoding) ?? preferences.get('*') ?? 0;
+    if (q > bestQ) {
+      best = encoding;
+      bestQ = q;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Adds a field to the Vary header, keeping the ones already there
+ */
+export function addVary(res, field: string) {
+  const current = res.getHeader('Vary');
+  const fields = String(current || '').split(',').map((value) => value.trim()).filter(Boolean);
+
+  if (fields.includes('*') || fields.some((value) => value.toLowerCase() === field.toLowerCase())) return;
+
+  res.setHeader('Vary', [...fields, field].join(', '));
+}
+
+/**
+ * Creates a compression stream. Every write is flushed, so streamed
+ * SSR chunks reach the browser as soon as React renders them.
+ */
+function createCompressStream(encoding: Encoding) {
+  if (encoding === 'br') {
+    return zlib.createBrotliCompress({
+      flush: zlib.constants.BROTLI_OPERATION_FLUSH,
+      params: {
+        // Quality 11 is for build time, 4 keeps up with dynamic responses
+        [zlib.constants.BROTLI_PARAM_QUALITY]: 4
+      }
+    });
+  }
+
+  return zlib.createGzip({ flush: zlib.constants.Z_SYNC_FLUSH });
+}
+
+/**
+ * Compresses whatever a handler writes to `res`, when the response is
+ * compressible, not already encoded and at least `threshold` bytes long.
+ *
+ * Compression is decided when the headers are sent: in `writeHead`, against
+ * Content-Length when it's set, or with the first write. Responses sent with
+ * only `res.end(body)` are measured against the threshold too.
+ */
+export function compressResponse(req, res, options: CompressionOptions = {}) {
+  const threshold = options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+  const encoding = req.method === 'HEAD' ? null : negotiateEncoding(req.headers['accept-encoding']);
+
+  const writeHead = res.writeHead;
+  const write = res.write;
+  const end = res.end;
+
+  let started = false;
+  let stream: zlib.Gzip | zlib.BrotliCompress | null = null;
+  // The socket refused compressed output, the stream is paused until it drains
+  let socketFull = false;
+  // A write returned false, the handler waits for 'drain'
+  let needDrain = false;
+
+  // Decides on compression and sends the headers
+  const start = (length?: number, statusMessage?: string) => {
+    started = true;
+
+    if (isCompressible(res.getHeader('Content-Type'))) {
+      addVary(res, 'Accept-Encoding');
+
+      const contentLength = res.getHeader('Content-Length');
+      const size = contentLength !== undefined ? Number(contentLength) : length;
+
+      const shouldCompress = encoding &&
+        !res.getHeader('Content-Encoding') &&
+        res.statusCode !== 204 && res.statusCode !== 206 && res.statusCode !== 304 &&
+        !/\bno-transform\b/.test(String(res.getHeader('Cache-Control') || '')) &&
+        (size === undefined || size >= threshold);
+
+      if (shouldCompress) {
+        res.setHeader('Content-Encoding', encoding);
+        res.removeHeader('Content-Length');
+
+        // The compressed bytes differ from the ones the ETag was made for
+        const etag = res.getHeader('ETag');
+        if (typeof etag === 'string' && !etag.startsWith('W/')) {
+          res.setHeader('ETag', `W/${etag}`);
+        }
+
+        stream = createCompressStream(encoding);
+        stream.on('data', (chunk) => {
+          if (write.call(res, chunk) === false) {
+            socketFull = true;
+            stream!.pause();
+          }
+        });
+        stream.on('end', () => end.call(res));
+        // The handler may write again once both the stream and the socket have room
+        stream.on('drain', () => {
+          if (needDrain && !socketFull) {
+            needDrain = false;
+            res.emit('drain');
+          }
+        });
+        res.on('drain', () => {
+          if (!socketFull) return;
+          socketFull = false;
+          stream!.resume();
+        });
+      }
+    }
+
+    writeHead.call(res, res.statusCode, statusMessage);
+  };
+
+  // Headers given to writeHead are applied to `res`, so they count in the decision
+  res.writeHead = function(statusCode, statusMessage?, headers?) {
+    if (typeof statusMessage === 'object') {
+      headers = statusMessage;
+      statusMessage = undefined;
+    }
+
+    res.statusCode = statusCode;
+
+    if (Array.isArray(headers)) {
+      // Raw [name, value, ...] pairs, where a name can repeat (Set-Cookie)
+      const values = new Map<string, any[]>();
+      for (let i = 0; i < headers.length; i += 2) {
+        const name = String(headers[i]).toLowerCase();
+        values.set(name, [...(values.get(name) || []), headers[i + 1]]);
+      }
+      values.forEach((value, name) => res.setHeader(name, value.length === 1 ? value[0] : value));
+    } else if (headers) {
+      for (const [name, value] of Object.entries(headers)) res.setHeader(name, value as any);
+    }
+
+    if (!started) start(undefined, statusMessage);
+    return res;
+  };
+
+  res.write = function(chunk, encodingOrCallback?, callback?) {
+    if (!started) start();
+    if (!stream) return write.call(res, chunk, encodingOrCallback, callback);
+
+    const ok = stream.write(chunk, encodingOrCallback, callback) && !socketFull;
+    if (!ok) needDrain = true;
+    return ok;
+  };
+
+  res.end = function(chunk?, encodingOrCallback?, callback?) {
+    if (typeof chunk === 'function') {
+      callback = chunk;
+      chunk = undefined;
+    } else if (typeof encodingOrCallback === 'function') {
+      callback = encodingOrCallback;
+      encodingOrCallback = undefined;
+    }
+
+    if (!started) {
+      start(chunk ? Buffer.byteLength(chunk, encodingOrCallback) : 0);
+    }
+
+    if (!stream) return end.call(res, chunk, encodingOrCallback, callback);
+
+    if (callback) res.once('finish', callback);
+    if (chunk) {
+      stream.end(chunk, encodingOrCallback);
+    } else {
+      stream.end();
+    }
+    return res;
+  };
+
+  // Streaming responses that send their headers early (before any content)
+  res.flushHeaders = function() {
+    if (!started) start();
+    return Object.getPrototypeOf(res).flushHeaders.call(res);
+  };
+}
+
+/**
+ * Finds the precompressed copy of a file (`app.js.br`, `app.js.gz`) the client
+ * accepts, or null to send the file itself
+ */
+export function findPrecompressed(filePath: string, acceptEncoding: string | string[] | undefined): { filePath: string; encoding: Encoding; size: number } | null {
+  const available = (Object.keys(ENCODING_EXTENSIONS) as Encoding[])
+    .filter((encoding) => fs.existsSync(filePath + ENCODING_EXTENSIONS[encoding]));
+
+  const encoding = negotiateEncoding(acceptEncoding, available);
+  if (!encoding) return null;
+
+  const compressedPath = filePath + ENCODING_EXTENSIONS[encoding];
+  return { filePath: compressedPath, encoding, size: fs.statSync(compressedPath).size };
+}
+
+/**
+ * Gets the compression settings from `config.server.compression`
+ * (`false`, or `{ enabled, threshold }`), or null when it's turned off
+ */
+export function getCompressionOptions(config): CompressionOptions | null {
+  const options = config?.server?.compression;
+  if (options === false || options?.enabled === false) return null;
+
+  return { threshold: DEFAULT_COMPRESSION_THRESHOLD, ...options, enabled: true };
+}
+
+/**
+ * Writes `.br` and `.gz` copies of the compressible files in a directory,
+ * for `serveStaticFile` to send as they are. Copies that don't save space are skipped.
+ */
+export function precompressDirectory(dir: string, threshold = DEFAULT_COMPRESSION_THRESHOLD): number {
+  if (!fs.existsSync(dir)) return 0;
+
+  let count = 0;
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const filePath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      count += precompressDirectory(filePath, threshold);
+      continue;
+    }
+
+    if (!COMPRESSIBLE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) continue;
+
+    const content = fs.readFileSync(filePath);
+    if (content.length < threshold) continue;
+
+    const compressed: Record<Encoding, Buffer> = {
+      br: zlib.brotliCompressSync(content, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: content.length
+        }
+      }),
+      gzip: zlib.gzipSync(content, { level: zlib.constants.Z_BEST_COMPRESSION })
+    };
+
+    for (const [encoding, data] of Object.entries(compressed)) {
+      if (data.length >= content.length) continue;
+
+      fs.writeFileSync(filePath + ENCODING_EXTENSIONS[encoding], data);
+      count++;
+    }
+  }
+
+  return count;
+}
+
+export default {
+  compressResponse,
+  negotiateEncoding,
+  isCompressible,
+  addVary,
+  precompressDirectory,
+  findPrecompressed,
+  getCompressionOptions,
+  DEFAULT_COMPRESSION_THRESHOLD
+};
@@ -26,7 +26,18 @@ export const defaultConfig = {
   // Server options
   server: {
     port: 3000,
-    host: 'localhost'
+    host: 'localhost',
+    // Brotli or gzip for responses of at least `threshold` bytes
+    compression: {
+      enabled: true,
+      threshold: 1024
+    },
+    // Request body limits in bytes, files over `diskThreshold` are buffered on disk
+    body: {
+      maxSize: 1024 * 1024,
+      maxUploadSize: 50 * 1024 * 1024,
+      diskThreshold: 1024 * 1024
+    }
   },
   
   // SSG options
@@ -45,6 +56,18 @@ export const defaultConfig = {
     enabled: true
   },
   
+  // Content-Security-Policy with a nonce per response: `true`, or { reportOnly, directives, report }
+  csp: false,
+  
+  // Server actions: origin and token checks (csrf), other origins allowed to call them
+  actions: {
+    csrf: true,
+    allowedOrigins: []
+  },
+  
+  // Route param matchers, used by constrained params such as [id=int]
+  matchers: {},
+  
   // Plugins
   plugins: [],
   
@@ -73,11 +96,11 @@ export async function loadConfig(projectRoot: string) {
   
   if (fs.existsSync(configPath)) {
     try {
-      const configUrl = pathToFileURL(configPath).href;
-      const module = await import(`${configUrl}?t=${Date.now()}`);
+      const module = await importConfig(configPath);
       userConfig = module.default || module;
     } catch (error: any) {
-      console.warn('Warning: Failed to load flexireact config:', error.message);
+      // Running on the defaults would drop csp, actions.secret, matchers and the rest
+      throw new Error(`Failed to load ${path.basename(configPath)}: ${error.message}`, { cause: error });
     }
   }
   
@@ -85,6 +108,26 @@ export async function loadConfig(projectRoot: string) {
   return deepMerge(defaultConfig, userConfig);
 }
 
+/**
+ * Imports the config file. A .ts config is compiled by tsx when the server
+ * runs on plain Node, as the built CLI's `flexi start` does.
+ */
+async function importConfig(configPath: string) {
+  const configUrl = pathToFileURL(configPath).href;
+
+  try {
+    return await import(configUrl);
+  } catch (error: any) {
+    if (error.code !== 'ERR_UNKNOWN_FILE_EXTENSION') throw error;
+
+    const { tsImport } = await import('tsx/esm/api');
+    const module = await tsImport(configUrl, import.meta.url);
+
+    // Compiled to CommonJS outside "type": "module" packages
+    return module.default?.__esModule ? module.default : module;
+  }
+}
+
 /**
  * Deep merge two objects
  */
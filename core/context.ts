@@ -4,6 +4,7 @@
  */
 
 import React from 'react';
+import type { RoutePath, ParamsOf } from './types.js';
 
 // Server-side request context
 export const RequestContext = React.createContext(null);
@@ -59,11 +60,12 @@ export function useRequest() {
 }
 
 /**
- * Hook to access route params
+ * Hook to access route params.
+ * Pass the route path for typed params: `useParams<'/blog/:slug'>()`.
  */
-export function useParams() {
+export function useParams<Path extends RoutePath = RoutePath>(): ParamsOf<Path> {
   const context = React.useContext(RouteContext);
-  return context?.params || {};
+  return (context?.params || {}) as ParamsOf<Path>;
 }
 
 /**
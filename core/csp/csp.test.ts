@@ -0,0 +1,145 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { logger } from '../logger.js';
+import {
+  buildCSPHeader,
+  setCSPHeaders,
+  getCSPOptions,
+  getNoncePlaceholder,
+  generateNonce,
+  handleCSPReport,
+  CSP_REPORT_PATH
+} from './index.js';
+
+const directives = (header: string) => Object.fromEntries(
+  header.split('; ').map((directive) => {
+    const [name, ...sources] = directive.split(' ');
+    return [name, sources];
+  })
+);
+
+describe('buildCSPHeader', () => {
+  test('adds the nonce to the script and style directives', () => {
+    const policy = directives(buildCSPHeader({}, 'abc'));
+
+    assert.deepEqual(policy['script-src'], ["'self'", "'strict-dynamic'", "'nonce-abc'"]);
+    assert.deepEqual(policy['style-src'], ["'self'", "'nonce-abc'"]);
+    assert.deepEqual(policy['style-src-attr'], ["'unsafe-inline'"]);
+    assert.deepEqual(policy['object-src'], ["'none'"]);
+  });
+
+  test('merges directives over the defaults', () => {
+    const policy = directives(buildCSPHeader({
+      directives: {
+        'img-src': ['https://cdn.example.com'],
+        'connect-src': "'self' https://api.example.com",
+        'frame-ancestors': false,
+        'script-src-elem': ["'none'"]
+      }
+    }, 'abc'));
+
+    assert.deepEqual(policy['img-src'], ['https://cdn.example.com']);
+    assert.deepEqual(policy['connect-src'], ["'self'", 'https://api.example.com']);
+    assert.equal(policy['frame-ancestors'], undefined);
+    assert.deepEqual(policy['script-src-elem'], ["'none'"]);
+    assert.deepEqual(policy['default-src'], ["'self'"]);
+  });
+
+  test('points reports at the collector or a given URL', () => {
+    const collected = directives(buildCSPHeader({ report: true }, 'abc'));
+    assert.deepEqual(collected['report-uri'], [CSP_REPORT_PATH]);
+    assert.deepEqual(collected['report-to'], ['flexi-csp']);
+
+    const external = directives(buildCSPHeader({ report: 'https://reports.example.com' }, 'abc'));
+    assert.deepEqual(external['report-uri'], ['https://reports.example.com']);
+    assert.equal(external['report-to'], undefined);
+  });
+});
+
+describe('setCSPHeaders', () => {
+  const createResponse = () => {
+    const headers: Record<string, string> = {};
+    return { headers, setHeader: (name: string, value: string) => { headers[name] = value; } };
+  };
+
+  test('sends report-only policies under their own header', () => {
+    const res = createResponse();
+    setCSPHeaders(res, { reportOnly: true, report: true }, 'abc');
+
+    assert.equal(res.headers['Content-Security-Policy'], undefined);
+    assert.match(res.headers['Content-Security-Policy-Report-Only'], /'nonce-abc'/);
+    assert.equal(res.headers['Reporting-Endpoints'], `flexi-csp="${CSP_REPORT_PATH}"`);
+  });
+});
+
+test('getCSPOptions reads config.csp', () => {
+  assert.equal(getCSPOptions({}), null);
+  assert.equal(getCSPOptions({ csp: { enabled: false } }), null);
+  assert.deepEqual(getCSPOptions({ csp: true }), { enabled: true });
+  assert.deepEqual(getCSPOptions({ csp: { reportOnly: true } }), { reportOnly: true, enabled: true });
+});
+
+describe('nonces', () => {
+  test('are new for every response', () => {
+    assert.notEqual(generateNonce(), generateNonce());
+  });
+
+  test('have a placeholder every server of a build shares', () => {
+    const placeholder = getNoncePlaceholder('build-1');
+
+    assert.match(placeholder, /^flexi-nonce-[0-9a-f]{32}$/);
+    assert.equal(getNoncePlaceholder('build-1'), placeholder);
+    assert.notEqual(getNoncePlaceholder('build-2'), placeholder);
+    assert.doesNotMatch(placeholder, /build-1/);
+    assert.equal(getNoncePlaceholder(), getNoncePlaceholder(null));
+  });
+});
+
+describe('handleCSPReport', () => {
+  const createRequest = (body: string, contentType: string, url = CSP_REPORT_PATH) =>
+    Object.assign(Readable.from([Buffer.from(body)]), { method: 'POST', url, headers: { 'content-type': contentType } });
+
+  const createResponse = () => ({
+    status: 0,
+    writeHead(status: number) { this.status = status; },
+    end() {}
+  });
+
+  test('accepts reports in both formats', async () => {
+    const legacy = createResponse();
+    const report = JSON.stringify({ 'csp-report': { 'violated-directive': 'script-src', 'blocked-uri': 'inline' } });
+    assert.equal(await handleCSPReport(createRequest(report, 'application/csp-report'), legacy), true);
+    assert.equal(legacy.status, 204);
+
+    const reporting = createResponse();
+    const reports = JSON.stringify([{ type: 'csp-violation', body: { effectiveDirective: 'style-src' } }]);
+    assert.equal(await handleCSPReport(createRequest(reports, 'application/reports+json'), reporting), true);
+    assert.equal(reporting.status, 204);
+  });
+
+  test('rejects malformed reports and leaves other requests alone', async () => {
+    const res = createResponse();
+    assert.equal(await handleCSPReport(createRequest('{oops', 'application/csp-report'), res), true);
+    assert.equal(res.status, 400);
+
+    assert.equal(await handleCSPReport(createRequest('{}', 'application/json', '/other'), createResponse()), false);
+  });
+
+  test('logs a violation once, and only so many of them', async (t) => {
+    const warn = t.mock.method(logger, 'warn', () => {});
+    const post = (blocked: string) => handleCSPReport(
+      createRequest(JSON.stringify({ 'csp-report': { 'violated-directive': 'img-src', 'blocked-uri': blocked } }), 'application/csp-report'),
+      createResponse()
+    );
+
+    for (let i = 0; i < 3; i++) await post('https://repeat.example');
+    assert.equal(warn.mock.callCount(), 1);
+
+    await post(`https://long.example/${'x'.repeat(1000)}`);
+    assert.ok(warn.mock.calls[1].arguments[0].length < 300);
+
+    for (let i = 0; i < 50; i++) await post(`https://flood.example/${i}`);
+    assert.ok(warn.mock.callCount() <= 20);
+  });
+});
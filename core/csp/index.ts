@@ -0,0 +1,216 @@
+/**
+ * FlexiReact Content Security Policy
+ * Sends a Content-Security-Policy header with a nonce per request. The framework
+ * stamps the nonce on the scripts and styles it injects, and pages read it with
+ * `useNonce()` for their own.
+ */
+
+import crypto from 'crypto';
+import { readRequestBody, getBodyError } from '../server/body.js';
+import { logger } from '../logger.js';
+
+export type CSPDirectives = Record<string, string | string[] | false>;
+
+export interface CSPOptions {
+  enabled?: boolean;
+  /** Send Content-Security-Policy-Report-Only, violations are reported but not blocked */
+  reportOnly?: boolean;
+  /** Directives merged over the defaults, `false` removes one */
+  directives?: CSPDirectives;
+  /** `true` collects violations at `CSP_REPORT_PATH` and logs them, a URL sends them there */
+  report?: boolean | string;
+}
+
+/** Endpoint that collects violation reports */
+export const CSP_REPORT_PATH = '/_flexi/csp-report';
+
+/** Largest report accepted */
+const MAX_REPORT_SIZE = 64 * 1024;
+
+/** Reporting API group of the report endpoint */
+const REPORT_GROUP = 'flexi-csp';
+
+/** Distinct violations logged per window, anyone can post reports */
+const MAX_LOGGED_REPORTS = 20;
+const REPORT_WINDOW_MS = 60 * 1000;
+
+/** Longest report field logged */
+const MAX_REPORT_FIELD = 200;
+
+// Violations logged in the current window, and how many were left out
+let reportWindow = { start: 0, logged: new Set<string>(), dropped: 0 };
+
+/**
+ * Inline scripts and styles need the nonce. 'strict-dynamic' lets the framework's
+ * module scripts import client components and islands.
+ */
+export const DEFAULT_CSP_DIRECTIVES: CSPDirectives = {
+  'default-src': ["'self'"],
+  'script-src': ["'self'", "'strict-dynamic'"],
+  'style-src': ["'self'"],
+  // React renders the style prop as an attribute, which a nonce can't cover
+  'style-src-attr': ["'unsafe-inline'"],
+  'img-src': ["'self'", 'data:', 'blob:'],
+  'font-src': ["'self'", 'data:'],
+  'object-src': ["'none'"],
+  'base-uri': ["'self'"],
+  'form-action': ["'self'"],
+  'frame-ancestors': ["'self'"]
+};
+
+/** Placeholder secret of servers running without a build (`flexi build` writes one) */
+const PROCESS_BUILD_ID = crypto.randomBytes(16).toString('hex');
+
+/**
+ * Gets the placeholder that stands in for the nonce in pages rendered ahead of
+ * the response (SSG, ISR). It's swapped for each response's nonce. Derived from
+ * the secret build ID, so every server running a build shares it and page
+ * content can't know it.
+ */
+export function getNoncePlaceholder(buildId?: string | null): string {
+  const hash = crypto.createHash('sha256').update(`flexi-csp-nonce:${buildId || PROCESS_BUILD_ID}`).digest('hex');
+  return `flexi-nonce-${hash.slice(0, 32)}`;
+}
+
+/** Directives that get the nonce */
+const NONCE_DIRECTIVES = ['script-src', 'script-src-elem', 'style-src', 'style-src-elem'];
+
+/**
+ * Creates a nonce, new for every response
+ */
+export function generateNonce(): string {
+  return crypto.randomBytes(16).toString('base64');
+}
+
+/**
+ * Gets the CSP settings from `config.csp` (`true`, or `{ reportOnly, directives, report }`),
+ * or null when it's turned off
+ */
+export function getCSPOptions(config): CSPOptions | null {
+  const options = config?.csp;
+  if (!options || options.enabled === false) return null;
+
+  return options === true ? { enabled: true } : { ...options, enabled: true };
+}
+
+/**
+ * Builds the policy for a nonce
+ */
+export function buildCSPHeader(options: CSPOptions, nonce: string): string {
+  const directives: CSPDirectives = { ...DEFAULT_CSP_DIRECTIVES, ...options.directives };
+
+  if (options.report) {
+    directives['report-uri'] = typeof options.report === 'string' ? options.report : CSP_REPORT_PATH;
+    if (options.report === true) directives['report-to'] = REPORT_GROUP;
+  }
+
+  return Object.entries(directives)
+    .filter(([, value]) => value !== false)
+    .map(([name, value]) => {
+      const sources = Array.isArray(value) ? [...value] : String(value).split(/\s+/).filter(Boolean);
+
+      if (NONCE_DIRECTIVES.includes(name) && !sources.includes("'none'")) {
+        sources.push(`'nonce-${nonce}'`);
+      }
+
+      return [name, ...sources].join(' ');
+    })
+    .join('; ');
+}
+
+/**
+ * Sets the CSP headers of a response
+ */
+export function setCSPHeaders(res, options: CSPOptions, nonce: string) {
+  const header = options.reportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy';
+  res.setHeader(header, buildCSPHeader(options, nonce));
+
+  if (options.report === true) {
+    res.setHeader('Reporting-Endpoints', `${REPORT_GROUP}="${CSP_REPORT_PATH}"`);
+  }
+}
+
+/**
+ * Gets the nonce attribute for a tag, or nothing without a nonce
+ */
+export function nonceAttribute(nonce?: string | null): string {
+  return nonce ? ` nonce="${nonce}"` : '';
+}
+
+function truncate(value) {
+  const text = value == null ? '' : String(value);
+  return text.length > MAX_REPORT_FIELD ? `${text.slice(0, MAX_REPORT_FIELD)}…` : text;
+}
+
+/**
+ * Logs a violation once per window, and at most MAX_LOGGED_REPORTS of them,
+ * so repeated or forged reports can't flood the log
+ */
+function logViolation(message: string) {
+  const now = Date.now();
+
+  if (now - reportWindow.start >= REPORT_WINDOW_MS) {
+    if (reportWindow.dropped > 0) {
+      logger.warn(`CSP violation: ${reportWindow.dropped} more reports were left out of the log`);
+    }
+    reportWindow = { start: now, logged: new Set(), dropped: 0 };
+  }
+
+  if (reportWindow.logged.has(message)) return;
+
+  if (reportWindow.logged.size >= MAX_LOGGED_REPORTS) {
+    reportWindow.dropped++;
+    return;
+  }
+
+  reportWindow.logged.add(message);
+  logger.warn(message);
+}
+
+/**
+ * Handles `POST CSP_REPORT_PATH`, from `report-uri` (`application/csp-report`)
+ * or the Reporting API (`application/reports+json`). Returns false for any other request.
+ */
+export async function handleCSPReport(req, res): Promise<boolean> {
+  const pathname = (req.url || '').split('?')[0];
+  if (pathname !== CSP_REPORT_PATH || req.method !== 'POST') return false;
+
+  let reports: any[] = [];
+  try {
+    const body = await readRequestBody(req, { maxSize: MAX_REPORT_SIZE, maxUploadSize: MAX_REPORT_SIZE });
+    const data = typeof body === 'string' ? JSON.parse(body) : body;
+
+    reports = Array.isArray(data)
+      ? data.filter((report) => report?.type === 'csp-violation').map((report) => report.body)
+      : [data?.['csp-report']];
+  } catch (error) {
+    res.writeHead(getBodyError(error)?.status || 400);
+    res.end();
+    return true;
+  }
+
+  for (const report of reports) {
+    if (!report) continue;
+
+    const directive = truncate(report.effectiveDirective || report['effective-directive'] || report['violated-directive']);
+    const blocked = truncate(report.blockedURL || report['blocked-uri'] || 'inline');
+    const page = truncate(report.documentURL || report['document-uri']);
+    logViolation(`CSP violation: ${directive} blocked ${blocked}${page ? ` on ${page}` : ''}`);
+  }
+
+  res.writeHead(204);
+  res.end();
+  return true;
+}
+
+export default {
+  generateNonce,
+  getCSPOptions,
+  buildCSPHeader,
+  setCSPHeaders,
+  nonceAttribute,
+  handleCSPReport,
+  CSP_REPORT_PATH,
+  getNoncePlaceholder,
+  DEFAULT_CSP_DIRECTIVES
+};
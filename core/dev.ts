@@ -22,6 +22,8 @@ const loaderUrl = pathToFileURL(loaderPath).href;
 const child = spawn(
   process.execPath,
   [
+    // Stack traces point at the original source, through the loader's source maps
+    '--enable-source-maps',
     '--import',
     `data:text/javascript,import { register } from 'node:module'; register('${loaderUrl.replace(/\\/g, '/')}', import.meta.url);`,
     serverPath
@@ -21,7 +21,7 @@ export interface CacheEntry<T = any> {
 
 // Cache options
 export interface CacheOptions {
-  ttl?: number; // seconds
+  ttl?: number; // seconds, 0 = never expires
   staleWhileRevalidate?: number; // seconds
   tags?: string[];
   key?: string;
@@ -298,7 +298,7 @@ export const cache = {
     const { ttl = 60, staleWhileRevalidate = 0, tags = [] } = options;
     return cacheStorage.set(key, {
       value,
-      expires: Date.now() + ttl * 1000,
+      expires: ttl ? Date.now() + ttl * 1000 : 0,
       stale: staleWhileRevalidate ? Date.now() + (ttl + staleWhileRevalidate) * 1000 : undefined,
       tags
     });
@@ -12,6 +12,9 @@
 import { FlexiRequest, FlexiResponse } from './fetch-polyfill.js';
 import runtime, { detectRuntime } from './runtime.js';
 import { cache, CacheOptions } from './cache.js';
+import { resolveMethodHandler, getAllowedMethods } from '../server/adapter.js';
+import { createRequestStore, runWithRequestStore } from '../request-store.js';
+import { compareRoutePaths } from '../router/specificity.js';
 
 // Handler context
 export interface EdgeContext {
@@ -20,6 +23,7 @@ export interface EdgeContext {
   env: Record<string, string | undefined>;
   waitUntil: (promise: Promise<any>) => void;
   passThroughOnException?: () => void;
+  params: Record<string, string>;
 }
 
 // Route handler type
@@ -28,6 +32,9 @@ export type EdgeHandler = (
   context: EdgeContext
 ) => Promise<FlexiResponse> | FlexiResponse;
 
+// Route module with Web-standard method exports (same shape as routes/api/*.ts)
+export type EdgeRouteModule = Partial<Record<'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS', EdgeHandler>>;
+
 // Middleware type
 export type EdgeMiddleware = (
   request: FlexiRequest,
@@ -37,7 +44,7 @@ export type EdgeMiddleware = (
 
 // App configuration
 export interface EdgeAppConfig {
-  routes?: Map<string, EdgeHandler>;
+  routes?: Map<string, EdgeHandler | EdgeRouteModule>;
   middleware?: EdgeMiddleware[];
   notFound?: EdgeHandler;
   onError?: (error: Error, request: FlexiRequest) => FlexiResponse;
@@ -73,9 +80,24 @@ export function createEdgeApp(config: EdgeAppConfig = {}) {
       cache,
       env: env as Record<string, string | undefined>,
       waitUntil: executionContext?.waitUntil || (() => {}),
-      passThroughOnException: executionContext?.passThroughOnException
+      passThroughOnException: executionContext?.passThroughOnException,
+      params: {}
     };
 
+    // Request store for cookies(), headers() and actions
+    const store = createRequestStore(flexiRequest);
+
+    const response = await runWithRequestStore(store, () => dispatch(flexiRequest, context, store));
+
+    return withCookies(response, store.responseCookies);
+  }
+
+  // Runs middleware and the matched route
+  async function dispatch(
+    flexiRequest: FlexiRequest,
+    context: EdgeContext,
+    store: ReturnType<typeof createRequestStore>
+  ): Promise<Response> {
     try {
       // Run middleware chain
       const response = await runMiddleware(flexiRequest, context, middleware, async () => {
@@ -87,16 +109,31 @@ export function createEdgeApp(config: EdgeAppConfig = {}) {
         
         // Try pattern matching
         if (!handler) {
-          for (const [pattern, h] of routes) {
-            if (matchRoute(pathname, pattern)) {
-              handler = h;
+          for (const pattern of getSortedPatterns()) {
+            const params = matchRoute(pathname, pattern);
+            if (params) {
+              handler = routes.get(pattern);
+              context.params = params;
+              store.params = params;
               break;
             }
           }
         }
         
+        // Route modules dispatch on the request method
+        if (handler && typeof handler !== 'function') {
+          const methodHandler = resolveMethodHandler(handler, flexiRequest.method);
+          if (!methodHandler) {
+            return new FlexiResponse(null, {
+              status: 405,
+              headers: { Allow: getAllowedMethods(handler).join(', ') }
+            });
+          }
+          handler = methodHandler;
+        }
+        
         if (handler) {
-          return await handler(flexiRequest, context);
+          return await (handler as EdgeHandler)(flexiRequest, context);
         }
         
         return await notFound(flexiRequest, context);
@@ -109,6 +146,21 @@ export function createEdgeApp(config: EdgeAppConfig = {}) {
     }
   }
 
+  // Adds the Set-Cookie headers collected from cookies().set()
+  function withCookies(response: Response, cookies: string[]): Response {
+    if (cookies.length === 0) return response;
+
+    try {
+      cookies.forEach(cookie => response.headers.append('Set-Cookie', cookie));
+      return response;
+    } catch {
+      // Immutable headers (e.g. Response.redirect), copy the response
+      const copy = new Response(response.body, response);
+      cookies.forEach(cookie => copy.headers.append('Set-Cookie', cookie));
+      return copy;
+    }
+  }
+
   // Run middleware chain
   async function runMiddleware(
     request: FlexiRequest,
@@ -129,10 +181,20 @@ export function createEdgeApp(config: EdgeAppConfig = {}) {
     return next();
   }
 
-  // Simple route matching
-  function matchRoute(pathname: string, pattern: string): boolean {
+  // Route patterns, most specific first (recomputed when routes change)
+  let sortedPatterns: string[] | null = null;
+
+  function getSortedPatterns(): string[] {
+    if (!sortedPatterns || sortedPatterns.length !== routes.size) {
+      sortedPatterns = [...routes.keys()].sort(compareRoutePaths);
+    }
+    return sortedPatterns;
+  }
+
+  // Simple route matching, returns the matched params or null
+  function matchRoute(pathname: string, pattern: string): Record<string, string> | null {
     // Exact match
-    if (pathname === pattern) return true;
+    if (pathname === pattern) return {};
     
     // Convert pattern to regex
     const regexPattern = pattern
@@ -140,7 +202,8 @@ export function createEdgeApp(config: EdgeAppConfig = {}) {
       .replace(/\[(\w+)\]/g, '(?<$1>[^/]+)'); // [id] -> dynamic segment
     
     const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(pathname);
+    const match = regex.exec(pathname);
+    return match ? { ...match.groups } : null;
   }
 
   // Return platform-specific exports
@@ -153,9 +216,10 @@ export function createEdgeApp(config: EdgeAppConfig = {}) {
       // Handle scheduled events
     },
     
-    // Add route
-    route(path: string, handler: EdgeHandler) {
+    // Add route (a handler or a module exporting GET/POST/...)
+    route(path: string, handler: EdgeHandler | EdgeRouteModule) {
       routes.set(path, handler);
+      sortedPatterns = null;
       return this;
     },
     
@@ -38,7 +38,8 @@ export {
   type EdgeContext,
   type EdgeHandler,
   type EdgeMiddleware,
-  type EdgeAppConfig
+  type EdgeAppConfig,
+  type EdgeRouteModule
 } from './handler.js';
 
 // Smart caching
@@ -0,0 +1,302 @@
+/**
+ * FlexiReact Error Overlay
+ * Shows client-side errors in dev: uncaught exceptions, unhandled rejections,
+ * hydration errors and islands that failed to load. Stack frames are mapped back
+ * to the original source by the dev server, which also sends code frames.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CLIENT_COMPONENT_PATH, resolveClientComponent, compileClientComponent } from '../server/client-components.js';
+import { mapPosition, createCodeFrame } from '../source-maps/index.js';
+import { nonceAttribute } from '../csp/index.js';
+
+/** Endpoint that maps browser stack frames to the original source */
+export const ERROR_FRAMES_PATH = '/_flexi/error-frames';
+
+/** Largest request body accepted by the endpoint */
+const MAX_BODY_SIZE = 64 * 1024;
+
+/** Frames mapped per error */
+const MAX_FRAMES = 20;
+
+export interface StackFrame {
+  functionName?: string;
+  /** URL of the script, as in the browser's stack trace */
+  url: string;
+  line: number;
+  column: number;
+}
+
+export interface MappedStackFrame extends StackFrame {
+  /** Original file, relative to the project root. Only set for project files. */
+  file?: string;
+  codeFrame?: string;
+}
+
+/**
+ * Maps browser stack frames from client components back to their source.
+ * Frames from anything else (React, inline scripts) are returned as they are.
+ */
+export function mapStackFrames(frames: StackFrame[], pagesDir: string): MappedStackFrame[] {
+  const projectRoot = path.dirname(pagesDir);
+  const compiled = new Map<string, { map: string; source: string } | null>();
+
+  // Each component is compiled once, however many frames point into it
+  const getCompiled = (componentPath: string) => {
+    if (!compiled.has(componentPath)) {
+      try {
+        compiled.set(componentPath, {
+          map: compileClientComponent(componentPath, projectRoot).map,
+          source: fs.readFileSync(componentPath, 'utf-8')
+        });
+      } catch {
+        compiled.set(componentPath, null);
+      }
+    }
+    return compiled.get(componentPath);
+  };
+
+  return frames.slice(0, MAX_FRAMES).map((frame) => {
+    let pathname: string;
+    try {
+      pathname = new URL(frame.url).pathname;
+    } catch {
+      return frame;
+    }
+
+    if (!pathname.startsWith(CLIENT_COMPONENT_PATH)) return frame;
+
+    const componentName = decodeURIComponent(pathname.slice(CLIENT_COMPONENT_PATH.length));
+    const componentPath = resolveClientComponent(pagesDir, componentName);
+    const component = componentPath && getCompiled(componentPath);
+    if (!component) return frame;
+
+    const position = mapPosition(component.map, frame.line, frame.column);
+    if (!position) return frame;
+
+    return {
+      ...frame,
+      file: path.relative(projectRoot, componentPath).replace(/\\/g, '/'),
+      line: position.line,
+      column: position.column,
+      codeFrame: createCodeFrame(component.source, position.line, position.column)
+    };
+  });
+}
+
+/**
+ * Handles `POST ERROR_FRAMES_PATH` with `{ frames: StackFrame[] }`.
+ * Returns false for any other request.
+ */
+export async function handleErrorFramesRequest(req, res, pagesDir: string): Promise<boolean> {
+  const pathname = (req.url || '').split('?')[0];
+  if (pathname !== ERROR_FRAMES_PATH || req.method !== 'POST') return false;
+
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) {
+      res.writeHead(413, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Payload too large' }));
+      return true;
+    }
+  }
+
+  let frames: StackFrame[];
+  try {
+    frames = JSON.parse(body).frames;
+    if (!Array.isArray(frames)) throw new Error('frames must be an array');
+  } catch (error: any) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: error.message }));
+    return true;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify({ frames: mapStackFrames(frames, pagesDir) }));
+  return true;
+}
+
+/**
+ * Generates the overlay, a classic script for the document head so it catches
+ * errors from the first script on. Exposes `window.__FLEXI_OVERLAY__.report(error, options)`
+ * for errors caught by the framework (`options.source`: 'hydration', 'island', ...,
+ * `options.componentStack` from React).
+ */
+export function generateErrorOverlayScript(nonce?: string): string {
+  return `
+<script${nonceAttribute(nonce)}>
+  (function() {
+    if (window.__FLEXI_OVERLAY__) return;
+
+    // The overlay's styles need the page's CSP nonce too
+    var nonce = document.currentScript && document.currentScript.nonce;
+
+    var LABELS = {
+      runtime: 'Unhandled Runtime Error',
+      rejection: 'Unhandled Promise Rejection',
+      hydration: 'Hydration Error',
+      island: 'Island Failed to Load'
+    };
+
+    var errors = [];
+    var index = 0;
+    var host = null;
+
+    function escapeHtml(text) {
+      return String(text).replace(/[&<>"']/g, function(char) {
+        return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char];
+      });
+    }
+
+    // Chrome: "    at fn (url:1:2)" or "    at url:1:2". Firefox and Safari: "fn@url:1:2"
+    function parseStack(stack) {
+      return String(stack || '').split('\\n').map(function(line) {
+        var match = line.match(/^\\s*at (?:(.+?) \\()?(.+?):(\\d+):(\\d+)\\)?$/) || line.match(/^(.*?)@(.+?):(\\d+):(\\d+)$/);
+        return match && { functionName: match[1] || '', url: match[2], line: Number(match[3]), column: Number(match[4]) };
+      }).filter(Boolean);
+    }
+
+    function mapFrames(frames) {
+      if (frames.length === 0) return Promise.resolve(frames);
+
+      return fetch('${ERROR_FRAMES_PATH}', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ frames: frames })
+      })
+        .then(function(response) { return response.ok ? response.json() : { frames: frames }; })
+        .then(function(data) { return data.frames; })
+        .catch(function() { return frames; });
+    }
+
+    function formatLocation(frame) {
+      return (frame.file || frame.url) + ':' + frame.line + ':' + frame.column;
+    }
+
+    function render() {
+      if (!document.body) return;
+
+      if (errors.length === 0) {
+        if (host) host.remove();
+        host = null;
+        return;
+      }
+
+      if (!host) {
+        host = document.createElement('flexi-error-overlay');
+        host.attachShadow({ mode: 'open' });
+        document.body.appendChild(host);
+      }
+
+      var entry = errors[index];
+      var sourceFrame = entry.frames.find(function(frame) { return frame.codeFrame; });
+
+      host.shadowRoot.innerHTML = '<style' + (nonce ? ' nonce="' + nonce + '"' : '') + '>' +
+        ':host { position: fixed; inset: 0; z-index: 2147483647; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }' +
+        '.backdrop { position: absolute; inset: 0; background: rgba(0, 0, 0, 0.66); }' +
+        '.dialog { position: relative; max-width: 960px; max-height: calc(100vh - 64px); overflow: auto; margin: 32px auto; background: #18181b; color: #f4f4f5; border-top: 4px solid #ef4444; border-radius: 8px; padding: 24px; box-sizing: border-box; }' +
+        '.header { display: flex; align-items: center; gap: 12px; font-size: 13px; color: #a1a1aa; }' +
+        '.label { color: #ef4444; font-weight: bold; flex: 1; }' +
+        'button { background: #27272a; color: #f4f4f5; border: 0; border-radius: 4px; padding: 4px 10px; cursor: pointer; font: inherit; }' +
+        'button:disabled { opacity: 0.4; cursor: default; }' +
+        '.message { font-size: 18px; margin: 16px 0; white-space: pre-wrap; word-break: break-word; }' +
+        '.file { color: #00FF9C; font-size: 13px; margin-bottom: 8px; }' +
+        'pre { background: #09090b; border-radius: 6px; padding: 12px; overflow: auto; font-size: 13px; line-height: 1.5; margin: 0 0 16px; }' +
+        'h3 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #71717a; margin: 16px 0 8px; }' +
+        '.frame { font-size: 13px; padding: 4px 0; }' +
+        '.frame.external { color: #71717a; }' +
+        '.frame span { color: #a1a1aa; }' +
+        '</style>' +
+        '<div class="backdrop"></div>' +
+        '<div class="dialog" role="dialog" aria-label="Error overlay">' +
+        '<div class="header">' +
+        '<span class="label">' + escapeHtml(LABELS[entry.source] || 'Error') + '</span>' +
+        (errors.length > 1
+          ? '<button data-action="previous"' + (index === 0 ? ' disabled' : '') + '>‹</button>' +
+            '<span>' + (index + 1) + ' of ' + errors.length + '</span>' +
+            '<button data-action="next"' + (index === errors.length - 1 ? ' disabled' : '') + '>›</button>'
+          : '') +
+        '<button data-action="close" aria-label="Close">✕</button>' +
+        '</div>' +
+        '<div class="message">' + escapeHtml(entry.name + ': ' + entry.message) + '</div>' +
+        (sourceFrame
+          ? '<div class="file">' + escapeHtml(formatLocation(sourceFrame)) + '</div><pre>' + escapeHtml(sourceFrame.codeFrame) + '</pre>'
+          : '') +
+        (entry.frames.length > 0
+          ? '<h3>Call Stack</h3>' + entry.frames.map(function(frame) {
+            return '<div class="frame' + (frame.file ? '' : ' external') + '">' +
+              escapeHtml(frame.functionName || '<anonymous>') + ' <span>' + escapeHtml(formatLocation(frame)) + '</span></div>';
+          }).join('')
+          : '') +
+        (entry.componentStack ? '<h3>Component Stack</h3><pre>' + escapeHtml(entry.componentStack.trim()) + '</pre>' : '') +
+        '</div>';
+
+      host.shadowRoot.querySelectorAll('button').forEach(function(button) {
+        button.addEventListener('click', function() {
+          var action = button.getAttribute('data-action');
+          if (action === 'close') errors = [];
+          if (action === 'previous') index = Math.max(index - 1, 0);
+          if (action === 'next') index = Math.min(index + 1, errors.length - 1);
+          render();
+        });
+      });
+    }
+
+    function report(error, options) {
+      options = options || {};
+      var name = (error && error.name) || 'Error';
+      var message = error && error.message !== undefined ? error.message : String(error);
+
+      // React and the browser can report the same error twice
+      var last = errors[errors.length - 1];
+      if (last && last.name === name && last.message === message) return;
+
+      var entry = {
+        source: options.source || 'runtime',
+        name: name,
+        message: message,
+        componentStack: options.componentStack || null,
+        frames: parseStack(error && error.stack)
+      };
+
+      errors.push(entry);
+      index = errors.length - 1;
+      render();
+
+      mapFrames(entry.frames).then(function(frames) {
+        entry.frames = frames;
+        render();
+      });
+    }
+
+    window.__FLEXI_OVERLAY__ = { report: report };
+
+    window.addEventListener('error', function(event) {
+      // Failed <img> or <link> loads have no error object
+      if (event.error) report(event.error, { source: 'runtime' });
+    });
+
+    window.addEventListener('unhandledrejection', function(event) {
+      report(event.reason, { source: 'rejection' });
+    });
+
+    window.addEventListener('keydown', function(event) {
+      if (event.key === 'Escape' && errors.length > 0) {
+        errors = [];
+        render();
+      }
+    });
+
+    document.addEventListener('DOMContentLoaded', render);
+  })();
+</script>`;
+}
+
+export default {
+  generateErrorOverlayScript,
+  handleErrorFramesRequest,
+  mapStackFrames,
+  ERROR_FRAMES_PATH
+};
@@ -3,6 +3,9 @@
  * Utility functions for server-side operations
  */
 
+import { requireRequestStore, getRequestStore } from './request-store.js';
+import type { Href } from './types.js';
+
 // ============================================================================
 // Response Helpers
 // ============================================================================
@@ -50,7 +53,7 @@ export class NotFoundError extends Error {
  * }
  * ```
  */
-export function redirect(url: string, type: 'replace' | 'permanent' = 'replace'): never {
+export function redirect(url: Href, type: 'replace' | 'permanent' = 'replace'): never {
   const statusCode = type === 'permanent' ? 308 : 307;
   throw new RedirectError(url, statusCode);
 }
@@ -174,7 +177,7 @@ export interface CookieOptions {
 /**
  * Cookie utilities for server-side operations
  */
-export const cookies = {
+const cookieUtils = {
   /**
    * Parse cookies from a cookie header string
    */
@@ -266,6 +269,52 @@ export const cookies = {
   }
 };
 
+/**
+ * Cookies of the current request
+ */
+export interface RequestCookies {
+  get(name: string): string | undefined;
+  getAll(): Record<string, string>;
+  has(name: string): boolean;
+  /** Sets a cookie on the response (same defaults as `cookies.set`) */
+  set(name: string, value: string, options?: CookieOptions): void;
+  /** Deletes a cookie on the response */
+  delete(name: string, options?: Omit<CookieOptions, 'maxAge' | 'expires'>): void;
+}
+
+function requestCookies(): RequestCookies {
+  const store = requireRequestStore('cookies()');
+
+  return {
+    get: (name) => store.cookies[name],
+    getAll: () => ({ ...store.cookies }),
+    has: (name) => name in store.cookies,
+    set: (name, value, options = {}) => {
+      store.cookies[name] = value;
+      store.setCookie(cookieUtils.set(name, value, options));
+    },
+    delete: (name, options = {}) => {
+      delete store.cookies[name];
+      store.setCookie(cookieUtils.delete(name, options));
+    }
+  };
+}
+
+/**
+ * Cookies API
+ *
+ * @example
+ * ```ts
+ * // Anywhere during a request: server components, actions, API routes
+ * const theme = cookies().get('theme');
+ * cookies().set('theme', 'dark', { maxAge: 60 * 60 * 24 });
+ *
+ * // Utilities that work on any request
+ * const session = cookies.get(request, 'session');
+ * ```
+ */
+export const cookies = Object.assign(requestCookies, cookieUtils);
+
 // ============================================================================
 // Headers API
 // ============================================================================
@@ -273,7 +322,7 @@ export const cookies = {
 /**
  * Headers utilities for server-side operations
  */
-export const headers = {
+const headerUtils = {
   /**
    * Create a new Headers object with common defaults
    */
@@ -437,6 +486,47 @@ export const headers = {
   }
 };
 
+function requestHeaders(): Headers {
+  return requireRequestStore('headers()').request.headers;
+}
+
+/**
+ * Headers API
+ *
+ * @example
+ * ```ts
+ * // Headers of the current request
+ * const userAgent = headers().get('user-agent');
+ *
+ * // Utilities that work on any request
+ * const token = headers.bearerToken(request);
+ * ```
+ */
+export const headers = Object.assign(requestHeaders, headerUtils);
+
+// ============================================================================
+// CSP Nonce
+// ============================================================================
+
+/**
+ * Gets the Content-Security-Policy nonce of the current response, for the
+ * page's own inline `<script>` and `<style>` tags. Undefined when CSP is off.
+ *
+ * @example
+ * ```tsx
+ * const nonce = useNonce();
+ * return <script nonce={nonce} dangerouslySetInnerHTML={{ __html: 'track()' }} />;
+ * ```
+ */
+export function useNonce(): string | undefined {
+  if (typeof window === 'undefined') {
+    return getRequestStore()?.nonce;
+  }
+
+  // Browsers hide the nonce attribute once the page loads, the property keeps it
+  return document.querySelector<HTMLScriptElement>('script[nonce]')?.nonce || undefined;
+}
+
 // ============================================================================
 // Request Helpers
 // ============================================================================
@@ -0,0 +1,302 @@
+/**
+ * FlexiReact HMR
+ * Hot module replacement for the dev server. Source changes are pushed to the
+ * browser over Server-Sent Events on the dev server's own port. Client components
+ * and islands are swapped in place with React Fast Refresh, keeping their state;
+ * any other change reloads the page.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { buildSync } from 'esbuild';
+import { isClientComponent, isIsland } from '../utils.js';
+import { logger } from '../logger.js';
+import { nonceAttribute } from '../csp/index.js';
+
+/** Endpoint the browser subscribes to */
+export const HMR_PATH = '/_flexi/hmr';
+
+/** Directories watched for changes, relative to the project root */
+export const HMR_WATCH_DIRS = ['routes', 'app', 'pages', 'layouts', 'components'];
+
+/** React Fast Refresh runtime, loaded by the browser before react-dom */
+export const REFRESH_RUNTIME_PATH = '/_flexi/refresh-runtime.js';
+
+/** Files whose changes are sent to the browser */
+const SOURCE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.css'];
+
+/** How long to wait for more events before sending them, editors save in bursts */
+const DEBOUNCE_MS = 50;
+
+/** Interval of the comments that keep idle connections open */
+const KEEP_ALIVE_MS = 30000;
+
+export type HMRMessage =
+  | { type: 'connected' }
+  | { type: 'update'; updates: Array<{ file: string; urls: string[] }> }
+  | { type: 'reload'; files: string[] }
+  | { type: 'routes' };
+
+const require = createRequire(import.meta.url);
+
+let refreshRuntime: string | null = null;
+
+export interface HMRServerOptions {
+  projectRoot: string;
+  /** Absolute directories to watch */
+  dirs: string[];
+}
+
+/**
+ * Gets the dev URL a client component is served from, e.g.
+ * `/_flexi/component/routes/counter.js` for `routes/counter.tsx`
+ */
+export function getClientComponentUrl(filePath: string, projectRoot: string): string {
+  const relativePath = path.relative(projectRoot, filePath).replace(/\\/g, '/');
+  return `/_flexi/component/${relativePath.replace(/\.(tsx|jsx|ts|js)$/, '')}.js`;
+}
+
+/**
+ * Bundles the Fast Refresh runtime of `react-refresh` for the browser, once
+ */
+export function compileRefreshRuntime(): string {
+  if (!refreshRuntime) {
+    const result = buildSync({
+      entryPoints: [require.resolve('react-refresh/runtime')],
+      bundle: true,
+      format: 'esm',
+      target: 'es2020',
+      define: { 'process.env.NODE_ENV': '"development"' },
+      write: false
+    });
+    refreshRuntime = result.outputFiles[0].text;
+  }
+
+  return refreshRuntime;
+}
+
+/**
+ * Creates the HMR server: watches `dirs` and broadcasts changes to every
+ * connected browser
+ */
+export function createHMRServer({ projectRoot, dirs }: HMRServerOptions) {
+  const clients = new Set<any>();
+  const watchers: fs.FSWatcher[] = [];
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const broadcast = (message: HMRMessage) => {
+    const data = `data: ${JSON.stringify(message)}\n\n`;
+    clients.forEach((res) => res.write(data));
+  };
+
+  const toRelative = (filePath) => path.relative(projectRoot, filePath).replace(/\\/g, '/');
+
+  // Sends the changes collected since the last flush
+  const flush = () => {
+    timer = null;
+
+    const files = Array.from(pending);
+    pending.clear();
+
+    if (files.length === 0 || clients.size === 0) return;
+
+    // Removed files and server code can't be patched in the browser
+    const updates = [];
+    for (const filePath of files) {
+      const isFile = fs.statSync(filePath, { throwIfNoEntry: false })?.isFile();
+      const isClient = isFile && path.extname(filePath) !== '.css' &&
+        (isClientComponent(filePath) || isIsland(filePath));
+
+      if (!isClient) {
+        broadcast({ type: 'reload', files: files.map(toRelative) });
+        return;
+      }
+
+      updates.push({
+        file: toRelative(filePath),
+        urls: [
+          getClientComponentUrl(filePath, projectRoot),
+          // Islands are loaded from their default client path, named after the file
+          `/_flexi/islands/${path.basename(filePath, path.extname(filePath))}.js`
+        ]
+      });
+    }
+
+    broadcast({ type: 'update', updates });
+  };
+
+  for (const dir of dirs) {
+    if (!fs.existsSync(dir)) continue;
+
+    try {
+      const watcher = fs.watch(dir, { recursive: true, persistent: false }, (event, filename) => {
+        if (!filename || !SOURCE_EXTENSIONS.includes(path.extname(filename.toString()))) return;
+
+        pending.add(path.join(dir, filename.toString()));
+        if (!timer) {
+          timer = setTimeout(flush, DEBOUNCE_MS);
+          timer.unref();
+        }
+      });
+
+      watcher.on('error', () => watcher.close());
+      watchers.push(watcher);
+    } catch (error: any) {
+      logger.warn(`Hot reload is disabled for ${toRelative(dir)}: ${error.message}`);
+    }
+  }
+
+  const keepAlive = setInterval(() => {
+    clients.forEach((res) => res.write(': ping\n\n'));
+  }, KEEP_ALIVE_MS);
+  keepAlive.unref();
+
+  return {
+    /**
+     * Handles the browser's connection to `HMR_PATH` and serves the Fast Refresh
+     * runtime. Returns false for any other request.
+     */
+    handleRequest(req, res): boolean {
+      const pathname = (req.url || '').split('?')[0];
+
+      if (pathname === REFRESH_RUNTIME_PATH) {
+        res.writeHead(200, { 'Content-Type': 'application/javascript', 'Cache-Control': 'no-cache' });
+        res.end(compileRefreshRuntime());
+        return true;
+      }
+
+      if (pathname !== HMR_PATH) return false;
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+      res.write(`data: ${JSON.stringify({ type: 'connected' })}\n\n`);
+
+      clients.add(res);
+      req.on('close', () => clients.delete(res));
+
+      return true;
+    },
+
+    broadcast,
+
+    /**
+     * Stops watching and disconnects all browsers
+     */
+    close() {
+      if (timer) clearTimeout(timer);
+      clearInterval(keepAlive);
+      watchers.forEach((watcher) => watcher.close());
+      clients.forEach((res) => res.end());
+      clients.clear();
+    }
+  };
+}
+
+export type HMRServer = ReturnType<typeof createHMRServer>;
+
+/**
+ * Generates the browser side of HMR, a classic script for the document head.
+ * It loads the Fast Refresh runtime before any hydration script imports react-dom,
+ * and exposes `window.__FLEXI_HMR__`:
+ * - `ready`: resolves once the runtime is installed
+ * - `runtime`: the runtime, which compiled client components register with
+ * - `register(url, module)`: marks a hydrated module as hot-updatable
+ *
+ * Every message is also dispatched as a `flexi:hmr` event on `window`.
+ */
+export function generateHMRClientScript(nonce?: string): string {
+  return `
+<script${nonceAttribute(nonce)}>
+  (function() {
+    if (window.__FLEXI_HMR__ || !window.EventSource) return;
+
+    var modules = new Map();
+    var hmr = window.__FLEXI_HMR__ = {
+      runtime: null,
+      register: function(url, module) {
+        modules.set(url, module);
+      }
+    };
+
+    hmr.ready = import('${REFRESH_RUNTIME_PATH}')
+      .then(function(runtime) {
+        var RefreshRuntime = runtime.default || runtime;
+        RefreshRuntime.injectIntoGlobalHook(window);
+        hmr.runtime = RefreshRuntime;
+        return RefreshRuntime;
+      })
+      .catch(function(error) {
+        console.warn('⚡ FlexiReact: Fast Refresh is unavailable, changes will reload the page', error);
+        return null;
+      });
+
+    // A module can be refreshed when every function it exports is a component
+    function isRefreshBoundary(RefreshRuntime, module) {
+      return Object.keys(module).every(function(name) {
+        return typeof module[name] !== 'function' || RefreshRuntime.isLikelyComponentType(module[name]);
+      });
+    }
+
+    async function applyUpdate(message) {
+      var urls = [];
+      message.updates.forEach(function(update) {
+        update.urls.forEach(function(url) {
+          if (modules.has(url)) urls.push(url);
+        });
+      });
+
+      // None of the changed components are on this page
+      if (urls.length === 0) return;
+
+      var RefreshRuntime = await hmr.ready;
+      if (!RefreshRuntime) return window.location.reload();
+
+      // Importing the new version registers its components with the runtime
+      for (var i = 0; i < urls.length; i++) {
+        var module = await import(urls[i] + '?t=' + Date.now());
+        if (!isRefreshBoundary(RefreshRuntime, module)) return window.location.reload();
+
+        modules.set(urls[i], module);
+      }
+
+      RefreshRuntime.performReactRefresh();
+    }
+
+    var connected = false;
+    var source = new EventSource('${HMR_PATH}');
+
+    source.onmessage = function(event) {
+      var message = JSON.parse(event.data);
+      window.dispatchEvent(new CustomEvent('flexi:hmr', { detail: message }));
+
+      if (message.type === 'connected') {
+        // Reconnected after the dev server restarted
+        if (connected) window.location.reload();
+        connected = true;
+      } else if (message.type === 'reload') {
+        window.location.reload();
+      } else if (message.type === 'update') {
+        applyUpdate(message).catch(function(error) {
+          console.error('⚡ FlexiReact: Hot update failed, reloading', error);
+          window.location.reload();
+        });
+      }
+    };
+  })();
+</script>`;
+}
+
+export default {
+  createHMRServer,
+  compileRefreshRuntime,
+  generateHMRClientScript,
+  getClientComponentUrl,
+  HMR_PATH,
+  HMR_WATCH_DIRS,
+  REFRESH_RUNTIME_PATH
+};
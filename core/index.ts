@@ -4,7 +4,7 @@
  */
 
 // Types
-export type { FlexiConfig, Route, RouteType as RouteTypeEnum, PageProps, LayoutProps } from './types.js';
+export type { FlexiConfig, Route, RouteType as RouteTypeEnum, RouteParams, RouteParamMatcher, RouteDiagnostic, RouteRegistry, RoutePath, ParamsOf, Href, ExternalHref, PageProps, LayoutProps, RouteHandler, RouteHandlerContext } from './types.js';
 
 // Core exports
 export { loadConfig, defaultConfig, resolvePaths } from './config.js';
@@ -12,7 +12,7 @@ export { createRequestContext, useRequest, useParams, useQuery, usePathname } fr
 export * from './utils.js';
 
 // Router
-export { buildRouteTree, matchRoute, findRouteLayouts, RouteType } from './router/index.js';
+export { buildRouteTree, matchRoute, buildRoutePath, findRouteLayouts, RouteType } from './router/index.js';
 
 // Render
 export { renderPage, renderPageStream, streamToResponse, renderError, renderLoading } from './render/index.js';
@@ -110,6 +110,7 @@ export type {
   EdgeHandler,
   EdgeMiddleware,
   EdgeAppConfig,
+  EdgeRouteModule,
   CacheEntry,
   CacheOptions,
   PPRConfig,
@@ -181,7 +182,7 @@ export {
   bindArgs,
   useActionContext
 } from './actions/index.js';
-export type { ActionContext, ActionResult, ServerActionFunction } from './actions/index.js';
+export type { ActionContext, ActionResult, ServerActionFunction, ServerActionOptions } from './actions/index.js';
 
 // Server Helpers
 export {
@@ -198,6 +199,8 @@ export {
   cookies,
   // Headers API
   headers,
+  // CSP nonce
+  useNonce,
   // Request helpers
   parseJson,
   parseFormData,
@@ -206,7 +209,11 @@ export {
   getPathname,
   isMethod
 } from './helpers.js';
-export type { CookieOptions } from './helpers.js';
+export type { CookieOptions, RequestCookies } from './helpers.js';
+
+// Serialization
+export { serialize, serializeToScript, deserialize } from './serialize/index.js';
+export type { SerializeOptions } from './serialize/index.js';
 
 // DevTools
 export {
@@ -13,6 +13,8 @@
 import React from 'react';
 import { renderToString } from 'react-dom/server';
 import crypto from 'crypto';
+import { nonceAttribute } from '../csp/index.js';
+import { serialize, serializeToScript } from '../serialize/index.js';
 
 // Island registry for tracking all islands in a render
 const islandRegistry = new Map();
@@ -46,7 +48,7 @@ export function Island({ component: Component, props = {}, name, clientPath }) {
   return React.createElement('div', {
     'data-island': islandId,
     'data-island-name': name,
-    'data-island-props': JSON.stringify(props),
+    'data-island-props': serialize(props, { label: `Props of island ${name}` }),
     dangerouslySetInnerHTML: { __html: content }
   });
 }
@@ -90,7 +92,7 @@ export function createIsland(Component: React.ComponentType<any>, options: Islan
 /**
  * Generates the client-side hydration script
  */
-export function generateHydrationScript(islands) {
+export function generateHydrationScript(islands, nonce?: string) {
   if (!islands.length) return '';
 
   const islandData = islands.map(island => ({
@@ -101,8 +103,14 @@ export function generateHydrationScript(islands) {
   }));
 
   return `
-<script type="module">
-  const islands = ${JSON.stringify(islandData)};
+<script type="module"${nonceAttribute(nonce)}>
+  const islands = ${serializeToScript(islandData, { label: 'Island props' })};
+  
+  // Hydration mismatches show in the error overlay in dev
+  function onRecoverableError(error, info) {
+    console.error(error);
+    window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration', componentStack: info?.componentStack });
+  }
   
   async function hydrateIslands() {
     const { hydrateRoot } = await import('/_flexi/react-dom-client.js');
@@ -117,12 +125,13 @@ export function generateHydrationScript(islands) {
         const Component = module.default;
         
         // Hydrate the island
-        hydrateRoot(element, React.createElement(Component, island.props));
+        hydrateRoot(element, React.createElement(Component, island.props), { onRecoverableError });
         
         // Mark as hydrated
         element.setAttribute('data-hydrated', 'true');
       } catch (error) {
         console.error(\`Failed to hydrate island \${island.name}:\`, error);
+        window.__FLEXI_OVERLAY__?.report(error, { source: 'island' });
       }
     }
   }
@@ -187,7 +196,7 @@ export function createLazyIsland(Component: React.ComponentType<any>, options: L
       'data-island-name': name,
       'data-island-strategy': strategy,
       'data-island-media': media,
-      'data-island-props': JSON.stringify(props),
+      'data-island-props': serialize(props, { label: `Props of island ${name}` }),
       dangerouslySetInnerHTML: { __html: content }
     });
   }
@@ -202,7 +211,7 @@ export function createLazyIsland(Component: React.ComponentType<any>, options: L
 /**
  * Generates advanced hydration script with loading strategies
  */
-export function generateAdvancedHydrationScript(islands) {
+export function generateAdvancedHydrationScript(islands, nonce?: string) {
   if (!islands.length) return '';
 
   const islandData = islands.map(island => ({
@@ -215,8 +224,14 @@ export function generateAdvancedHydrationScript(islands) {
   }));
 
   return `
-<script type="module">
-  const islands = ${JSON.stringify(islandData)};
+<script type="module"${nonceAttribute(nonce)}>
+  const islands = ${serializeToScript(islandData, { label: 'Island props' })};
+  
+  // Hydration mismatches show in the error overlay in dev
+  function onRecoverableError(error, info) {
+    console.error(error);
+    window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration', componentStack: info?.componentStack });
+  }
   
   async function hydrateIsland(island) {
     const element = document.querySelector(\`[data-island="\${island.id}"]\`);
@@ -227,11 +242,13 @@ export function generateAdvancedHydrationScript(islands) {
       const React = await import('/_flexi/react.js');
       const module = await import(island.path);
       const Component = module.default;
+      window.__FLEXI_HMR__?.register(island.path, module);
       
-      hydrateRoot(element, React.createElement(Component, island.props));
+      hydrateRoot(element, React.createElement(Component, island.props), { onRecoverableError });
       element.setAttribute('data-hydrated', 'true');
     } catch (error) {
       console.error(\`Failed to hydrate island \${island.name}:\`, error);
+      window.__FLEXI_OVERLAY__?.report(error, { source: 'island' });
     }
   }
   
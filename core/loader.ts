@@ -3,6 +3,7 @@ import { readFileSync } from 'fs';
 import { fileURLToPath, pathToFileURL } from 'url';
 import path from 'path';
 import { createRequire } from 'module';
+import { isServerModule, definesServerActions, getActionModulePath, appendActionRegistration, getServerFunctionExports } from './actions/transform.js';
 
 const require = createRequire(import.meta.url);
 
@@ -29,9 +30,10 @@ export async function load(url, context, nextLoad) {
     // Read the source file
     let source = readFileSync(filePath, 'utf-8');
     
-    // Remove 'use client', 'use server', 'use island' directives
-    // These are handled at build time, not runtime
-    source = source.replace(/^['"]use (client|server|island)['"];?\s*/m, '');
+    // Remove 'use client' and 'use island' directives
+    // These are handled at build time, not runtime. Line breaks stay so stack traces line up.
+    // 'use server' stays, it marks the module's exports as server actions.
+    source = source.replace(/^['"]use (client|island)['"];?\s*/m, (directive) => directive.replace(/[^\n]/g, ''));
     
     // Determine the loader based on file extension
     const loader = isTsx ? 'tsx' : isTs ? 'ts' : 'jsx';
@@ -44,12 +46,20 @@ export async function load(url, context, nextLoad) {
       jsx: 'transform',
       jsxFactory: 'React.createElement',
       jsxFragment: 'React.Fragment',
-      target: 'node18'
+      target: 'node18',
+      sourcemap: 'inline',
+      sourcefile: filePath
     });
     
+    // Project modules that define server actions register them once they've run
+    const modulePath = getActionModulePath(process.cwd(), filePath);
+    const isProjectFile = !modulePath.startsWith('..') && !modulePath.split('/').includes('node_modules');
+
     return {
       format: 'module',
-      source: result.code,
+      source: isProjectFile && definesServerActions(source)
+        ? appendActionRegistration(result.code, modulePath, cleanUrl, isServerModule(source), getServerFunctionExports(source, filePath))
+        : result.code,
       shortCircuit: true
     };
   }
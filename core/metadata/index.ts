@@ -11,6 +11,7 @@
  */
 
 import React from 'react';
+import { escapeScriptContent } from '../serialize/index.js';
 
 // Base metadata types
 export interface Metadata {
@@ -534,7 +535,7 @@ export function mergeMetadata(parent: Metadata, child: Metadata): Metadata {
 
 // Generate JSON-LD structured data
 export function generateJsonLd(data: Record<string, any>): string {
-  return `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+  return `<script type="application/ld+json">${escapeScriptContent(JSON.stringify(data))}</script>`;
 }
 
 // Common JSON-LD schemas
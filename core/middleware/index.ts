@@ -182,7 +182,7 @@ export async function loadMiddleware(projectRoot) {
 
   try {
     const url = pathToFileURL(middlewarePath).href;
-    const module = await import(`${url}?t=${Date.now()}`);
+    const module = await import(url);
     
     return {
       handler: module.default,
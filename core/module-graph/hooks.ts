@@ -0,0 +1,149 @@
+/**
+ * FlexiReact Module Graph Hooks
+ * Module customization hooks for the dev server, running on Node's loader thread.
+ *
+ * Every project file is imported as `file.tsx?v=<version>`. The version only changes
+ * when the file or one of the project files it imports changes on disk, so edits
+ * reload a module and its importers, and everything else stays cached.
+ *
+ * Modules that define server actions get their registration appended, like in `flexi build`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { MessagePort } from 'worker_threads';
+import { definesServerActions, getActionModulePath, appendActionRegistration, isServerModule, getServerFunctionExports } from '../actions/transform.js';
+
+interface ModuleEntry {
+  mtimeMs: number;
+  /** Value of `changeCount` when the file last changed, 0 if it never did */
+  changedAt: number;
+  /** Project files imported by the last loaded version */
+  imports: Set<string>;
+}
+
+let projectRoot = '';
+let port: MessagePort | null = null;
+
+const modules = new Map<string, ModuleEntry>();
+
+// Versioned URLs loaded so far. Each one stays in Node's module cache for good.
+const instances = new Set<string>();
+
+let changeCount = 0;
+
+// Files stat'ed during the current pass. A pass starts with every import from
+// outside the project (the server loading a page), so files are checked once per load.
+let checked = new Set<string>();
+
+export async function initialize(data: { projectRoot: string; port: MessagePort }) {
+  projectRoot = data.projectRoot;
+  port = data.port;
+}
+
+/**
+ * Gets the path of a project file URL, or null for anything else (packages, builtins)
+ */
+function getProjectPath(url: string | undefined): string | null {
+  if (!url || !url.startsWith('file:')) return null;
+
+  const filePath = fileURLToPath(url.split('?')[0]);
+  const relative = path.relative(projectRoot, filePath);
+
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+  if (relative.split(path.sep).includes('node_modules')) return null;
+
+  return filePath;
+}
+
+/**
+ * Checks a file on disk, recording a change when its mtime moved
+ */
+function check(filePath: string): ModuleEntry {
+  let entry = modules.get(filePath);
+
+  if (!entry) {
+    entry = { mtimeMs: 0, changedAt: 0, imports: new Set() };
+    modules.set(filePath, entry);
+  }
+
+  if (!checked.has(filePath)) {
+    checked.add(filePath);
+
+    const mtimeMs = fs.statSync(filePath, { throwIfNoEntry: false })?.mtimeMs ?? -1;
+    if (entry.mtimeMs && mtimeMs !== entry.mtimeMs) {
+      entry.changedAt = ++changeCount;
+    }
+    entry.mtimeMs = mtimeMs;
+  }
+
+  return entry;
+}
+
+/**
+ * Gets the version of a file: the latest change in the file or anything it imports
+ */
+function getVersion(filePath: string): number {
+  const visited = new Set<string>();
+  const stack = [filePath];
+  let version = 0;
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    const entry = check(current);
+    version = Math.max(version, entry.changedAt);
+    stack.push(...entry.imports);
+  }
+
+  return version;
+}
+
+export async function resolve(specifier, context, nextResolve) {
+  const result = await nextResolve(specifier, context);
+  const filePath = getProjectPath(result.url);
+  if (!filePath) return result;
+
+  const parentPath = getProjectPath(context.parentURL);
+  if (parentPath) {
+    modules.get(parentPath)?.imports.add(filePath);
+  } else {
+    checked = new Set();
+  }
+
+  const url = new URL(result.url);
+  url.searchParams.set('v', String(getVersion(filePath)));
+
+  return { ...result, url: url.href };
+}
+
+export async function load(url, context, nextLoad) {
+  const filePath = getProjectPath(url);
+
+  if (filePath) {
+    // The imports of this version are recorded as it resolves them
+    check(filePath).imports = new Set();
+
+    if (!instances.has(url)) {
+      instances.add(url);
+      port?.postMessage({ modules: modules.size, instances: instances.size });
+    }
+  }
+
+  const result = await nextLoad(url, context);
+
+  if (filePath && result.format === 'module' && result.source != null) {
+    const source = typeof result.source === 'string' ? result.source : new TextDecoder().decode(result.source);
+
+    if (definesServerActions(source)) {
+      const modulePath = getActionModulePath(projectRoot, filePath);
+      const actionExports = getServerFunctionExports(source, filePath);
+      return { ...result, source: appendActionRegistration(source, modulePath, pathToFileURL(filePath).href, isServerModule(source), actionExports) };
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,86 @@
+/**
+ * FlexiReact Module Graph
+ * Dev module loading that tracks dependencies between project files.
+ * Cache-busting every import (`?t=Date.now()`) leaves a new entry in Node's module
+ * cache each time, which is never freed. With the graph, a module is only loaded
+ * again when it or a project file it imports changed on disk.
+ */
+
+import module from 'module';
+import { MessageChannel } from 'worker_threads';
+import { pathToFileURL } from 'url';
+import { logger } from '../logger.js';
+
+export interface ModuleCacheStats {
+  /** Project files loaded at least once */
+  modules: number;
+  /** Module versions held in Node's cache, one per file plus one per reload */
+  instances: number;
+}
+
+// Hooks can't be unregistered, so there is one graph per process
+let graph: ReturnType<typeof createGraph> | null = null;
+
+function createGraph(projectRoot: string) {
+  const { port1, port2 } = new MessageChannel();
+  let stats: ModuleCacheStats = { modules: 0, instances: 0 };
+
+  // Hooks run on a separate thread, which reports the cache size as it loads modules
+  port1.on('message', (message: ModuleCacheStats) => {
+    stats = message;
+  });
+  port1.unref();
+
+  const hooksPath = new URL(`./hooks${import.meta.url.endsWith('.ts') ? '.ts' : '.js'}`, import.meta.url);
+
+  module.register(hooksPath.href, {
+    parentURL: import.meta.url,
+    data: { projectRoot, port: port2 },
+    transferList: [port2]
+  });
+
+  return {
+    projectRoot,
+
+    /**
+     * Imports a project file, reusing the cached module unless it changed
+     */
+    importModule(filePath: string) {
+      return import(pathToFileURL(filePath).href);
+    },
+
+    getStats(): ModuleCacheStats {
+      return stats;
+    }
+  };
+}
+
+export type ModuleGraph = ReturnType<typeof createGraph>;
+
+/**
+ * Sets up the module graph for a project, returning null when this version
+ * of Node can't register module hooks (before 20.6)
+ */
+export function createModuleGraph(projectRoot: string): ModuleGraph | null {
+  if (graph) return graph;
+
+  if (typeof module.register !== 'function') {
+    logger.warn('Module reloading needs Node.js 20.6 or later, every request will load modules again.');
+    return null;
+  }
+
+  graph = createGraph(projectRoot);
+  return graph;
+}
+
+/**
+ * Gets the size of the dev module cache, or null when there is no module graph
+ */
+export function getModuleCacheStats(): ModuleCacheStats | null {
+  return graph ? graph.getStats() : null;
+}
+
+export default {
+  createModuleGraph,
+  getModuleCacheStats
+};
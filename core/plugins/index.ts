@@ -32,6 +32,7 @@
 import fs from 'fs';
 import path from 'path';
 import { pathToFileURL } from 'url';
+import { nonceAttribute, type CSPOptions } from '../csp/index.js';
 
 /**
  * Plugin lifecycle hooks
@@ -197,7 +198,7 @@ export async function loadPlugins(projectRoot, config) {
   if (fs.existsSync(pluginPath)) {
     try {
       const url = pathToFileURL(pluginPath).href;
-      const module = await import(`${url}?t=${Date.now()}`);
+      const module = await import(url);
       const plugin = module.default;
       
       if (plugin) {
@@ -257,12 +258,12 @@ export const builtinPlugins = {
     return definePlugin({
       name: 'flexi-analytics',
 
-      onAfterRender(html) {
+      onAfterRender(html, page) {
         if (!trackingId) return html;
 
         const script = `
-          <script async src="https://www.googletagmanager.com/gtag/js?id=${trackingId}"></script>
-          <script>
+          <script async src="https://www.googletagmanager.com/gtag/js?id=${trackingId}"${nonceAttribute(page?.nonce)}></script>
+          <script${nonceAttribute(page?.nonce)}>
             window.dataLayer = window.dataLayer || [];
             function gtag(){dataLayer.push(arguments);}
             gtag('js', new Date());
@@ -284,10 +285,10 @@ export const builtinPlugins = {
     return definePlugin({
       name: 'flexi-pwa',
 
-      onAfterRender(html) {
+      onAfterRender(html, page) {
         const tags = `
           <link rel="manifest" href="${manifest}">
-          <script>
+          <script${nonceAttribute(page?.nonce)}>
             if ('serviceWorker' in navigator) {
               navigator.serviceWorker.register('${serviceWorker}');
             }
@@ -324,25 +325,23 @@ export const builtinPlugins = {
   },
 
   /**
-   * Compression plugin (for production)
+   * Compression plugin, turns on `server.compression` with the given options
    */
-  compression() {
+  compression(options: { threshold?: number } = {}) {
     return definePlugin({
       name: 'flexi-compression',
 
-      onResponse(req, res, html) {
-        // Note: Actual compression would require zlib
-        // This is a placeholder for the concept
-        res.setHeader('Content-Encoding', 'identity');
-        return html;
+      onConfig(config) {
+        const current = typeof config.server.compression === 'object' ? config.server.compression : {};
+        config.server.compression = { ...current, ...options, enabled: true };
       }
     });
   },
 
   /**
-   * Security headers plugin
+   * Security headers plugin. `csp` turns on `config.csp` with the given options.
    */
-  securityHeaders(options: { headers?: Record<string, string> } = {}) {
+  securityHeaders(options: { headers?: Record<string, string>; csp?: boolean | CSPOptions } = {}) {
     const headers: Record<string, string> = {
       'X-Content-Type-Options': 'nosniff',
       'X-Frame-Options': 'DENY',
@@ -354,6 +353,12 @@ export const builtinPlugins = {
     return definePlugin({
       name: 'flexi-security',
 
+      onConfig(config) {
+        if (options.csp) {
+          config.csp = options.csp === true ? { enabled: true } : { ...options.csp, enabled: true };
+        }
+      },
+
       onRequest(req, res) {
         for (const [key, value] of Object.entries(headers)) {
           res.setHeader(key, value);
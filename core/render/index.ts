@@ -4,19 +4,65 @@
  */
 
 import React from 'react';
+import path from 'path';
 import { renderToString, renderToPipeableStream } from 'react-dom/server';
 import { escapeHtml } from '../utils.js';
+import { generateHMRClientScript } from '../hmr/index.js';
+import { generateErrorOverlayScript } from '../error-overlay/index.js';
+import { mapStackTrace, findSourceLocation } from '../source-maps/index.js';
+import { nonceAttribute } from '../csp/index.js';
+import { serializeToScript } from '../serialize/index.js';
+import { getRequestStore } from '../request-store.js';
+import { ErrorBoundary } from '../client/error-boundary.js';
+
+/**
+ * Marker that stands in for the page content inside a streamed document shell
+ */
+const STREAM_CONTENT_MARKER = '<!--flexi-stream-content-->';
+
+/**
+ * Builds the element tree for a page: page → error boundary → Suspense → layouts
+ */
+function buildPageElement({ Component, props = {}, layouts = [], loading = null, error = null }) {
+  // Build the component tree - start with the page component
+  let element: any = React.createElement(Component, props);
+
+  // Wrap with error boundary if error component exists
+  if (error) {
+    element = React.createElement(ErrorBoundary, {
+      fallback: error,
+      children: element
+    });
+  }
+
+  // Wrap with Suspense if loading component exists (for streaming/async)
+  if (loading) {
+    element = React.createElement(React.Suspense as any, {
+      fallback: React.createElement(loading),
+      children: element
+    });
+  }
+
+  // Wrap with layouts (innermost to outermost)
+  // Each layout receives children as a prop
+  for (const layout of [...layouts].reverse()) {
+    if (layout.Component) {
+      const LayoutComponent = layout.Component;
+      element = React.createElement(LayoutComponent, {
+        ...layout.props,
+        key: layout.key
+      }, element);
+    }
+  }
+
+  return element;
+}
 
 /**
  * Renders a page with all its layouts and wrappers
  */
 export async function renderPage(options) {
   const {
-    Component,
-    props = {},
-    layouts = [],
-    loading = null,
-    error = null,
     islands = [],
     title = 'FlexiReact App',
     meta = {},
@@ -25,41 +71,18 @@ export async function renderPage(options) {
     favicon = null,
     isSSG = false,
     route = '/',
-    needsHydration = false
+    needsHydration = false,
+    hmr = false,
+    errorOverlay = false,
+    moduleCache = null,
+    nonce = getRequestStore()?.nonce,
+    props = {}
   } = options;
 
   const renderStart = Date.now();
 
   try {
-    // Build the component tree - start with the page component
-    let element: any = React.createElement(Component, props);
-
-    // Wrap with error boundary if error component exists
-    if (error) {
-      element = React.createElement(ErrorBoundaryWrapper as any, {
-        fallback: error,
-        children: element
-      });
-    }
-
-    // Wrap with Suspense if loading component exists (for streaming/async)
-    if (loading) {
-      element = React.createElement(React.Suspense as any, {
-        fallback: React.createElement(loading),
-        children: element
-      });
-    }
-
-    // Wrap with layouts (innermost to outermost)
-    // Each layout receives children as a prop
-    for (const layout of [...layouts].reverse()) {
-      if (layout.Component) {
-        const LayoutComponent = layout.Component;
-        element = React.createElement(LayoutComponent, {
-          ...layout.props
-        }, element);
-      }
-    }
+    const element = buildPageElement(options);
 
     // Render to string
     const content = renderToString(element);
@@ -82,7 +105,11 @@ export async function renderPage(options) {
       isSSG,
       renderTime,
       route,
-      isClientComponent: needsHydration
+      isClientComponent: needsHydration,
+      hmr,
+      errorOverlay,
+      moduleCache,
+      nonce
     });
 
   } catch (err) {
@@ -92,13 +119,20 @@ export async function renderPage(options) {
 }
 
 /**
- * Streaming SSR with React 18
- * Renders the page progressively, sending HTML chunks as they become ready
+ * Streaming SSR with React 19
+ * Renders the page progressively, sending HTML chunks as they become ready.
+ *
+ * The document shell (head, data script, dev toolbar) is the same one
+ * `renderPage` produces. It is built once the shell is ready and can be
+ * rewritten through `transformDocument` (e.g. AFTER_RENDER plugins), with the
+ * page content replaced by a marker. `bootstrap` runs after the last chunk
+ * and its HTML is injected before `</body>`, which is where island scripts
+ * go since islands register themselves while rendering.
  */
 export async function renderPageStream(options: {
   Component: React.ComponentType<any>;
   props?: Record<string, any>;
-  layouts?: Array<{ Component: React.ComponentType<any>; props?: Record<string, any> }>;
+  layouts?: Array<{ Component: React.ComponentType<any>; props?: Record<string, any>; key?: string }>;
   loading?: React.ComponentType | null;
   error?: React.ComponentType<{ error: Error }> | null;
   title?: string;
@@ -107,104 +141,163 @@ export async function renderPageStream(options: {
   styles?: Array<string | { content: string }>;
   favicon?: string | null;
   route?: string;
+  isSSG?: boolean;
+  needsHydration?: boolean;
+  /** Connect the page to the dev server's hot reload channel */
+  hmr?: boolean;
+  /** Show client errors in an overlay (dev) */
+  errorOverlay?: boolean;
+  /** Size of the dev module cache, for the dev toolbar */
+  moduleCache?: { modules: number; instances: number } | null;
+  /** CSP nonce for the framework's scripts and React's streaming scripts, the request's by default */
+  nonce?: string;
+  /** `useActionState` state from a form posted without JavaScript, the request's by default */
+  formState?: any;
+  /** Wait for all Suspense boundaries before sending anything (crawlers, caching) */
+  waitForAllReady?: boolean;
+  /** Abort pending Suspense boundaries after this many milliseconds */
+  abortAfter?: number;
+  transformDocument?: (html: string) => string | Promise<string>;
+  bootstrap?: () => string | Promise<string>;
   onShellReady?: () => void;
   onAllReady?: () => void;
   onError?: (error: Error) => void;
-}): Promise<{ stream: NodeJS.ReadableStream; shellReady: Promise<void> }> {
+}): Promise<{ stream: NodeJS.ReadableStream; shellReady: Promise<void>; allReady: Promise<void>; abort: () => void }> {
   const {
-    Component,
     props = {},
-    layouts = [],
-    loading = null,
-    error = null,
     title = 'FlexiReact App',
     meta = {},
     scripts = [],
     styles = [],
     favicon = null,
     route = '/',
+    isSSG = false,
+    needsHydration = false,
+    hmr = false,
+    errorOverlay = false,
+    moduleCache = null,
+    nonce = getRequestStore()?.nonce,
+    formState = getRequestStore()?.formState ?? null,
+    waitForAllReady = false,
+    abortAfter = 10000,
+    transformDocument,
+    bootstrap,
     onShellReady,
     onAllReady,
     onError
   } = options;
 
   const renderStart = Date.now();
+  const element = buildPageElement(options);
 
-  // Build the component tree
-  let element: any = React.createElement(Component, props);
+  const { PassThrough, Writable } = await import('stream');
+  const output = new PassThrough();
 
-  // Wrap with error boundary if error component exists
-  if (error) {
-    element = React.createElement(ErrorBoundaryWrapper as any, {
-      fallback: error,
-      children: element
-    });
-  }
+  let shellReadyResolve: () => void;
+  let shellReadyReject: (error: Error) => void;
+  const shellReady = new Promise<void>((resolve, reject) => {
+    shellReadyResolve = resolve;
+    shellReadyReject = reject;
+  });
 
-  // Wrap with Suspense if loading component exists
-  if (loading) {
-    element = React.createElement(React.Suspense as any, {
-      fallback: React.createElement(loading),
-      children: element
+  let allReadyResolve: () => void;
+  const allReady = new Promise<void>((resolve) => {
+    allReadyResolve = resolve;
+  });
+
+  // Avoid unhandled rejections when the caller only awaits one of the phases
+  shellReady.catch(() => {});
+
+  let documentTail = '';
+
+  // Writes the document head and starts piping React's output
+  const startDocument = async () => {
+    const renderTime = Date.now() - renderStart;
+
+    let shell = buildHtmlDocument({
+      content: STREAM_CONTENT_MARKER,
+      title,
+      meta,
+      scripts,
+      styles,
+      favicon,
+      props,
+      isSSG,
+      renderTime,
+      route,
+      isClientComponent: needsHydration,
+      hmr,
+      errorOverlay,
+      moduleCache,
+      nonce,
+      formState
     });
-  }
 
-  // Wrap with layouts
-  for (const layout of [...layouts].reverse()) {
-    if (layout.Component) {
-      element = React.createElement(layout.Component, layout.props, element);
+    if (transformDocument) {
+      shell = await transformDocument(shell);
     }
-  }
 
-  // Create the full document wrapper
-  const DocumentWrapper = ({ children }: { children: React.ReactNode }) => {
-    return React.createElement('html', { lang: 'en', className: 'dark' },
-      React.createElement('head', null,
-        React.createElement('meta', { charSet: 'UTF-8' }),
-        React.createElement('meta', { name: 'viewport', content: 'width=device-width, initial-scale=1.0' }),
-        React.createElement('title', null, title),
-        favicon && React.createElement('link', { rel: 'icon', href: favicon }),
-        ...Object.entries(meta).map(([name, content]) =>
-          React.createElement('meta', { key: name, name, content })
-        ),
-        ...styles.map((style, i) =>
-          typeof style === 'string'
-            ? React.createElement('link', { key: i, rel: 'stylesheet', href: style })
-            : React.createElement('style', { key: i, dangerouslySetInnerHTML: { __html: style.content } })
-        )
-      ),
-      React.createElement('body', null,
-        React.createElement('div', { id: 'root' }, children),
-        ...scripts.map((script, i) =>
-          typeof script === 'string'
-            ? React.createElement('script', { key: i, src: script })
-            : script.src
-              ? React.createElement('script', { key: i, src: script.src, type: script.type })
-              : React.createElement('script', { key: i, type: script.type, dangerouslySetInnerHTML: { __html: script.content } })
-        )
-      )
-    );
-  };
+    const markerIndex = shell.indexOf(STREAM_CONTENT_MARKER);
+    const head = markerIndex === -1 ? shell : shell.slice(0, markerIndex);
+    documentTail = markerIndex === -1 ? '' : shell.slice(markerIndex + STREAM_CONTENT_MARKER.length);
 
-  const fullElement = React.createElement(DocumentWrapper, null, element);
+    output.write(head);
+    pipe(sink);
+  };
 
-  // Create streaming render
-  let shellReadyResolve: () => void;
-  const shellReady = new Promise<void>((resolve) => {
-    shellReadyResolve = resolve;
+  // Forwards React's chunks without letting it end the output stream
+  const sink = new Writable({
+    write(chunk, _encoding, callback) {
+      if (output.write(chunk)) {
+        callback();
+      } else {
+        output.once('drain', () => callback());
+      }
+    },
+    final(callback) {
+      Promise.resolve(bootstrap ? bootstrap() : '')
+        .then((bootstrapHtml) => {
+          output.end(injectBeforeBodyEnd(documentTail, bootstrapHtml || ''));
+          callback();
+        })
+        .catch((err) => {
+          output.end(documentTail);
+          callback(err);
+        });
+    }
   });
 
-  const { pipe, abort } = renderToPipeableStream(fullElement, {
+  const begin = () => {
+    startDocument().then(
+      () => shellReadyResolve(),
+      (err) => {
+        shellReadyReject(err);
+        output.destroy(err);
+      }
+    );
+  };
+
+  const { pipe, abort } = renderToPipeableStream(element, {
+    nonce,
+    formState,
     onShellReady() {
-      const renderTime = Date.now() - renderStart;
-      console.log(`⚡ Shell ready in ${renderTime}ms`);
-      shellReadyResolve();
       onShellReady?.();
+      if (!waitForAllReady) {
+        begin();
+      }
+    },
+    onShellError(err: Error) {
+      clearTimeout(abortTimer);
+      shellReadyReject(err);
+      allReadyResolve();
     },
     onAllReady() {
-      const renderTime = Date.now() - renderStart;
-      console.log(`✨ All content ready in ${renderTime}ms`);
+      clearTimeout(abortTimer);
       onAllReady?.();
+      if (waitForAllReady) {
+        begin();
+      }
+      allReadyResolve();
     },
     onError(err: Error) {
       console.error('Streaming SSR Error:', err);
@@ -212,19 +305,29 @@ export async function renderPageStream(options: {
     }
   });
 
-  // Create a passthrough stream
-  const { PassThrough } = await import('stream');
-  const passThrough = new PassThrough();
-
-  // Pipe the render stream to our passthrough
-  pipe(passThrough);
+  // Give up on slow Suspense boundaries; the client renders their fallbacks
+  const abortTimer = setTimeout(() => abort(), abortAfter);
 
   return {
-    stream: passThrough,
-    shellReady
+    stream: output,
+    shellReady,
+    allReady,
+    abort
   };
 }
 
+/**
+ * Injects HTML right before the closing body tag
+ */
+function injectBeforeBodyEnd(html: string, injection: string): string {
+  if (!injection) return html;
+
+  const index = html.lastIndexOf('</body>');
+  if (index === -1) return html + injection;
+
+  return html.slice(0, index) + injection + html.slice(index);
+}
+
 /**
  * Render to stream for HTTP response
  * Use this in the server to stream HTML to the client
@@ -249,38 +352,6 @@ export function streamToResponse(
   });
 }
 
-/**
- * Error Boundary Wrapper for SSR
- */
-interface ErrorBoundaryProps {
-  fallback: React.ComponentType<{ error: Error }>;
-  children: React.ReactNode;
-}
-
-interface ErrorBoundaryState {
-  hasError: boolean;
-  error: Error | null;
-}
-
-class ErrorBoundaryWrapper extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
-  constructor(props: ErrorBoundaryProps) {
-    super(props);
-    this.state = { hasError: false, error: null };
-  }
-
-  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
-    return { hasError: true, error };
-  }
-
-  render() {
-    if (this.state.hasError) {
-      const FallbackComponent = this.props.fallback;
-      return React.createElement(FallbackComponent, { error: this.state.error! });
-    }
-    return this.props.children;
-  }
-}
-
 /**
  * Generates hydration scripts for islands
  */
@@ -295,7 +366,7 @@ function generateIslandScripts(islands) {
       content: `
         import { hydrateIsland } from '/_flexi/client.js';
         import ${island.name} from '${island.clientPath}';
-        hydrateIsland('${island.id}', ${island.name}, ${JSON.stringify(island.props)});
+        hydrateIsland('${island.id}', ${island.name}, ${serializeToScript(island.props, { label: `Props of island ${island.name}` })});
       `
     });
   }
@@ -314,6 +385,9 @@ interface DevToolbarOptions {
   isHydrated?: boolean;
   errorMessage?: string | null;
   componentName?: string | null;
+  /** Size of the dev module cache */
+  moduleCache?: { modules: number; instances: number } | null;
+  nonce?: string;
 }
 
 function generateDevToolbar(options: DevToolbarOptions = {}) {
@@ -324,7 +398,9 @@ function generateDevToolbar(options: DevToolbarOptions = {}) {
     hasError = false,
     isHydrated = false,
     errorMessage = null,
-    componentName = null
+    componentName = null,
+    moduleCache = null,
+    nonce
   } = options;
 
   const timeColor = renderTime < 50 ? '#00FF9C' : renderTime < 200 ? '#fbbf24' : '#ef4444';
@@ -333,7 +409,7 @@ function generateDevToolbar(options: DevToolbarOptions = {}) {
   return `
 <!-- FlexiReact v4 Dev Toolbar -->
 <div id="flexi-dev-toolbar" class="flexi-dev-collapsed">
-  <style>
+  <style${nonceAttribute(nonce)}>
     #flexi-dev-toolbar {
       position: fixed;
       bottom: 16px;
@@ -626,7 +702,7 @@ function generateDevToolbar(options: DevToolbarOptions = {}) {
     }
   </style>
   
-  <button class="flexi-dev-trigger ${hasError ? 'has-error' : ''}" onclick="this.parentElement.classList.toggle('flexi-dev-open')">
+  <button class="flexi-dev-trigger ${hasError ? 'has-error' : ''}" data-flexi-dev-toggle>
     <div class="flexi-dev-logo">F</div>
     <div class="flexi-dev-indicator">
       <div class="flexi-dev-dot ${hasError ? 'error' : ''}"></div>
@@ -641,7 +717,7 @@ function generateDevToolbar(options: DevToolbarOptions = {}) {
         <div class="flexi-dev-header-title">FlexiReact</div>
         <div class="flexi-dev-header-subtitle">v2.0.0 • Development</div>
       </div>
-      <button class="flexi-dev-close" onclick="this.closest('#flexi-dev-toolbar').classList.remove('flexi-dev-open')">✕</button>
+      <button class="flexi-dev-close" data-flexi-dev-close>✕</button>
     </div>
     
     <div class="flexi-dev-content">
@@ -670,6 +746,11 @@ function generateDevToolbar(options: DevToolbarOptions = {}) {
             <div class="flexi-dev-stat-label">Hydration</div>
             <div class="flexi-dev-stat-value" id="flexi-hydration-status">${isHydrated ? '✓ Client' : '○ Server'}</div>
           </div>
+          ${moduleCache ? `
+          <div class="flexi-dev-stat">
+            <div class="flexi-dev-stat-label">Module Cache</div>
+            <div class="flexi-dev-stat-value">${moduleCache.instances} <small style="color:#52525b">${moduleCache.modules} files</small></div>
+          </div>` : ''}
         </div>
       </div>
       
@@ -685,14 +766,28 @@ function generateDevToolbar(options: DevToolbarOptions = {}) {
     
     <div class="flexi-dev-footer">
       <a href="/_flexi/routes" class="flexi-dev-action">Routes</a>
-      <button class="flexi-dev-action" onclick="location.reload()">Refresh</button>
+      <button class="flexi-dev-action" data-flexi-dev-reload>Refresh</button>
       <a href="https://github.com/flexireact/flexireact" target="_blank" class="flexi-dev-action">Docs ↗</a>
     </div>
   </div>
 </div>
 
-<script>
+<script${nonceAttribute(nonce)}>
   // FlexiReact v4 DevTools
+  // Listeners instead of onclick attributes, which a Content-Security-Policy blocks
+  (function() {
+    var toolbar = document.getElementById('flexi-dev-toolbar');
+    toolbar.querySelector('[data-flexi-dev-toggle]').addEventListener('click', function() {
+      toolbar.classList.toggle('flexi-dev-open');
+    });
+    toolbar.querySelector('[data-flexi-dev-close]').addEventListener('click', function() {
+      toolbar.classList.remove('flexi-dev-open');
+    });
+    toolbar.querySelector('[data-flexi-dev-reload]').addEventListener('click', function() {
+      location.reload();
+    });
+  })();
+
   window.__FLEXI_DEV__ = {
     version: '2.0.0',
     renderTime: ${renderTime},
@@ -753,7 +848,12 @@ function buildHtmlDocument(options) {
     renderTime = 0,
     route = '/',
     isClientComponent = false,
-    favicon = null
+    favicon = null,
+    hmr = false,
+    errorOverlay = false,
+    moduleCache = null,
+    nonce,
+    formState = null
   } = options;
 
   const metaTags = Object.entries(meta)
@@ -770,20 +870,20 @@ function buildHtmlDocument(options) {
       if (typeof style === 'string') {
         return `<link rel="stylesheet" href="${escapeHtml(style)}">`;
       }
-      return `<style>${style.content}</style>`;
+      return `<style${nonceAttribute(nonce)}>${style.content}</style>`;
     })
     .join('\n    ');
 
   const scriptTags = scripts
     .map(script => {
       if (typeof script === 'string') {
-        return `<script src="${escapeHtml(script)}"></script>`;
+        return `<script src="${escapeHtml(script)}"${nonceAttribute(nonce)}></script>`;
       }
       const type = script.type ? ` type="${script.type}"` : '';
       if (script.src) {
-        return `<script${type} src="${escapeHtml(script.src)}"></script>`;
+        return `<script${type} src="${escapeHtml(script.src)}"${nonceAttribute(nonce)}></script>`;
       }
-      return `<script${type}>${script.content}</script>`;
+      return `<script${type}${nonceAttribute(nonce)}>${script.content}</script>`;
     })
     .join('\n    ');
 
@@ -797,7 +897,9 @@ function buildHtmlDocument(options) {
     renderTime,
     pageType,
     route,
-    isHydrated: isClientComponent
+    isHydrated: isClientComponent,
+    moduleCache,
+    nonce
   }) : '';
 
   // Determine favicon link
@@ -813,12 +915,14 @@ function buildHtmlDocument(options) {
     <title>${escapeHtml(title)}</title>
     ${faviconLink}
     ${metaTags}
-    <style>
+    <style${nonceAttribute(nonce)}>
       :root { --flexi-bg: #0f172a; --flexi-fg: #f8fafc; }
       html, body { background-color: #0f172a; color: #f8fafc; min-height: 100vh; margin: 0; }
     </style>
     ${styleTags}
-    <script>
+    ${errorOverlay ? generateErrorOverlayScript(nonce) : ''}
+    ${hmr ? generateHMRClientScript(nonce) : ''}
+    <script${nonceAttribute(nonce)}>
       (function() {
         var theme = localStorage.getItem('theme');
         if (theme === 'light') {
@@ -833,8 +937,8 @@ function buildHtmlDocument(options) {
 </head>
 <body>
     <div id="root">${content}</div>
-    <script>
-      window.__FLEXI_DATA__ = ${JSON.stringify({ props, isSSG })};
+    <script${nonceAttribute(nonce)}>
+      window.__FLEXI_DATA__ = ${serializeToScript(formState ? { props, isSSG, formState } : { props, isSSG }, { label: 'Page props' })};
     </script>
     ${scriptTags}
     ${devToolbar}
@@ -845,12 +949,14 @@ function buildHtmlDocument(options) {
 /**
  * Renders an error page with beautiful styling (FlexiReact v4)
  */
-export function renderError(statusCode, message, stack = null) {
+export function renderError(statusCode, message, stack = null, nonce = getRequestStore()?.nonce) {
   const showStack = process.env.NODE_ENV !== 'production' && stack;
   const isDev = process.env.NODE_ENV !== 'production';
 
-  // Parse error for better display
-  const errorDetails = parseErrorStack(stack);
+  // Parse error for better display, with frames pointing at the original source
+  const mappedStack = showStack ? mapStackTrace(stack) : null;
+  const errorDetails = parseErrorStack(mappedStack);
+  const sourceLocation = showStack ? findSourceLocation(mappedStack) : null;
 
   // Different messages for different status codes
   const errorMessages = {
@@ -872,6 +978,13 @@ export function renderError(statusCode, message, stack = null) {
       `).join('')
     : '';
 
+  const codeFrameHtml = sourceLocation ? `
+        <div class="error-code-frame">
+          <div class="error-code-frame-file">${escapeHtml(path.relative(process.cwd(), sourceLocation.file))}:${sourceLocation.line}:${sourceLocation.column}</div>
+          <pre>${escapeHtml(sourceLocation.codeFrame)}</pre>
+        </div>
+      ` : '';
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -879,7 +992,7 @@ export function renderError(statusCode, message, stack = null) {
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>${statusCode} - ${errorInfo.title} | FlexiReact</title>
     <link rel="icon" type="image/svg+xml" href="data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 32 32'%3E%3Crect width='32' height='32' rx='8' fill='%2300FF9C'/%3E%3Ctext x='50%25' y='50%25' dominant-baseline='central' text-anchor='middle' fill='%23000' font-family='system-ui' font-weight='bold' font-size='16'%3EF%3C/text%3E%3C/svg%3E">
-    <style>
+    <style${nonceAttribute(nonce)}>
       * { margin: 0; padding: 0; box-sizing: border-box; }
       
       body {
@@ -1072,6 +1185,27 @@ export function renderError(statusCode, message, stack = null) {
         word-break: break-word;
       }
       
+      .error-code-frame {
+        background: rgba(0, 0, 0, 0.4);
+        border: 1px solid rgba(255, 255, 255, 0.05);
+        border-radius: 12px;
+        padding: 12px 16px;
+        margin-bottom: 12px;
+        font-family: 'SF Mono', 'Fira Code', monospace;
+        font-size: 12px;
+      }
+      
+      .error-code-frame-file {
+        color: #00FF9C;
+        margin-bottom: 8px;
+      }
+      
+      .error-code-frame pre {
+        color: #d4d4d8;
+        overflow-x: auto;
+        line-height: 1.6;
+      }
+      
       .error-frames {
         background: rgba(0, 0, 0, 0.4);
         border: 1px solid rgba(255, 255, 255, 0.05);
@@ -1148,7 +1282,7 @@ export function renderError(statusCode, message, stack = null) {
           <a href="/" class="btn btn-primary">
             ← Back to Home
           </a>
-          <a href="javascript:history.back()" class="btn btn-secondary">
+          <a href="/" class="btn btn-secondary" data-flexi-back>
             Go Back
           </a>
         </div>
@@ -1157,6 +1291,7 @@ export function renderError(statusCode, message, stack = null) {
         <div class="error-stack">
           <div class="error-stack-header">Error Details</div>
           <div class="error-message">${escapeHtml(message)}</div>
+          ${codeFrameHtml}
           ${errorFramesHtml ? `<div class="error-frames">${errorFramesHtml}</div>` : ''}
         </div>
         ` : ''}
@@ -1169,6 +1304,14 @@ export function renderError(statusCode, message, stack = null) {
       FlexiReact v4
     </div>
     ` : ''}
+    <script${nonceAttribute(nonce)}>
+      document.querySelector('[data-flexi-back]').addEventListener('click', function(event) {
+        if (history.length > 1) {
+          event.preventDefault();
+          history.back();
+        }
+      });
+    </script>
 </body>
 </html>`;
 }
@@ -1206,11 +1349,11 @@ function parseErrorStack(stack) {
 /**
  * Renders a loading state
  */
-export function renderLoading(LoadingComponent) {
+export function renderLoading(LoadingComponent, nonce = getRequestStore()?.nonce) {
   if (!LoadingComponent) {
     return `<div class="flexi-loading">
       <div class="flexi-spinner"></div>
-      <style>
+      <style${nonceAttribute(nonce)}>
         .flexi-loading {
           display: flex;
           align-items: center;
@@ -0,0 +1,51 @@
+/**
+ * FlexiReact Layout Chain
+ * Loads the layout.tsx and template.tsx modules wrapping a route,
+ * shared by the server and static generation.
+ */
+
+import { findRouteLayouts, RouteType } from '../router/index.js';
+import { getRequestStore } from '../request-store.js';
+
+/**
+ * Loads the layouts and templates wrapping a route, outermost first.
+ * Layouts may export `metadata` (merged root first) and a `loader` whose
+ * result is passed to the layout as props. Templates are keyed by pathname,
+ * so they re-mount on every navigation.
+ */
+export async function loadLayoutChain(route, layoutsMap, loadModule, { params, query = {}, pathname }) {
+  const layouts = [];
+  let metadata = {};
+
+  for (const layoutConfig of findRouteLayouts(route, layoutsMap || new Map())) {
+    if (!layoutConfig.filePath) continue;
+
+    const layoutModule = await loadModule(layoutConfig.filePath);
+    if (!layoutModule.default) continue;
+
+    let loaderData = {};
+    if (typeof layoutModule.loader === 'function') {
+      loaderData = await layoutModule.loader({
+        params,
+        query,
+        request: getRequestStore()?.request
+      }) || {};
+    }
+
+    if (layoutModule.metadata) {
+      metadata = { ...metadata, ...layoutModule.metadata };
+    }
+
+    layouts.push({
+      Component: layoutModule.default,
+      props: { params, ...loaderData },
+      key: layoutConfig.type === RouteType.TEMPLATE ? pathname : undefined
+    });
+  }
+
+  return { layouts, metadata };
+}
+
+export default {
+  loadLayoutChain
+};
@@ -0,0 +1,106 @@
+/**
+ * FlexiReact Request Store
+ * Request-scoped state shared by cookies(), headers() and server actions.
+ *
+ * The server and the edge handler run every request inside `runWithRequestStore`,
+ * so helpers can reach the current request without it being passed around.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface RequestStore {
+  /** The incoming request (Web-standard) */
+  request: Request;
+  /** Route params, once a route has matched */
+  params: Record<string, string | string[]>;
+  /** Request cookies, updated by cookies().set() and cookies().delete() */
+  cookies: Record<string, string>;
+  /** Sends a Set-Cookie header with the response */
+  setCookie: (cookie: string) => void;
+  /** Action context while a server action runs */
+  action?: any;
+  /** Content-Security-Policy nonce of the response, when CSP is on */
+  nonce?: string;
+  /** `useActionState` state after a form was posted without JavaScript, for React to render */
+  formState?: any;
+}
+
+const requestStorage = new AsyncLocalStorage<RequestStore>();
+
+/**
+ * Parses a cookie header into name/value pairs
+ */
+export function parseCookieHeader(cookieHeader: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!cookieHeader) return cookies;
+
+  cookieHeader.split(';').forEach(cookie => {
+    const [name, ...rest] = cookie.split('=');
+    if (name && name.trim()) {
+      const value = rest.join('=').trim();
+      try {
+        cookies[name.trim()] = decodeURIComponent(value);
+      } catch {
+        cookies[name.trim()] = value;
+      }
+    }
+  });
+
+  return cookies;
+}
+
+/**
+ * Creates the store for a request.
+ * Set-Cookie values go to `setCookie`, or are collected in `responseCookies`.
+ */
+export function createRequestStore(
+  request: Request,
+  options: { params?: Record<string, string | string[]>; setCookie?: (cookie: string) => void } = {}
+): RequestStore & { responseCookies: string[] } {
+  const responseCookies: string[] = [];
+
+  return {
+    request,
+    params: options.params || {},
+    cookies: parseCookieHeader(request.headers.get('cookie')),
+    setCookie: options.setCookie || ((cookie) => {
+      responseCookies.push(cookie);
+    }),
+    responseCookies
+  };
+}
+
+/**
+ * Runs a function with the given request store
+ */
+export function runWithRequestStore<T>(store: RequestStore, fn: () => T): T {
+  return requestStorage.run(store, fn);
+}
+
+/**
+ * Gets the store of the current request, if any
+ */
+export function getRequestStore(): RequestStore | undefined {
+  return requestStorage.getStore();
+}
+
+/**
+ * Gets the store of the current request, or throws outside of one
+ */
+export function requireRequestStore(caller: string): RequestStore {
+  const store = requestStorage.getStore();
+
+  if (!store) {
+    throw new Error(`${caller} was called outside of a request. It only works in server components, server actions, API routes and middleware.`);
+  }
+
+  return store;
+}
+
+export default {
+  createRequestStore,
+  runWithRequestStore,
+  getRequestStore,
+  requireRequestStore,
+  parseCookieHeader
+};
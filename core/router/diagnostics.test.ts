@@ -0,0 +1,115 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { findRouteConflicts, findUnknownMatchers, createRouteError } from './diagnostics.js';
+
+const root = path.resolve('/project');
+
+const route = (routePath: string, file: string) => ({ path: routePath, filePath: path.join(root, file) });
+
+const summarize = (groups: any[][]) => findRouteConflicts(groups, root).map((diagnostic) => ({
+  type: diagnostic.type,
+  path: diagnostic.path,
+  winner: diagnostic.winner?.path
+}));
+
+describe('findRouteConflicts', () => {
+  test('reports two files resolving to the same path', () => {
+    const diagnostics = findRouteConflicts([
+      [route('/about', 'app/about/page.tsx')],
+      [route('/about', 'pages/about.tsx')]
+    ], root);
+
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].type, 'conflict');
+    assert.equal(diagnostics[0].filePath, path.join(root, 'pages/about.tsx'));
+    assert.equal(
+      diagnostics[0].message,
+      'Route conflict: app/about/page.tsx and pages/about.tsx both resolve to /about. app/about/page.tsx wins.'
+    );
+  });
+
+  test('reports params with different names in the same place', () => {
+    assert.deepEqual(summarize([[route('/blog/:slug', 'a.tsx'), route('/blog/:id', 'b.tsx')]]), [
+      { type: 'conflict', path: '/blog/:id', winner: '/blog/:slug' }
+    ]);
+  });
+
+  test('keeps params checked by different matchers apart', () => {
+    assert.deepEqual(summarize([[route('/users/:id=int', 'a.tsx'), route('/users/:id=uuid', 'b.tsx')]]), []);
+    assert.deepEqual(summarize([[route('/users/:id=int', 'a.tsx'), route('/users/:id', 'b.tsx')]]), []);
+  });
+
+  test('reports routes shadowed by a broader route of an earlier group', () => {
+    assert.deepEqual(summarize([
+      [route('/blog/*slug', 'routes/blog/[...slug].tsx')],
+      [route('/blog/:id', 'app/blog/[id]/page.tsx'), route('/blog', 'app/blog/page.tsx')]
+    ]), [
+      { type: 'shadowed', path: '/blog/:id', winner: '/blog/*slug' }
+    ]);
+  });
+
+  test('reports routes shadowed within a group', () => {
+    assert.deepEqual(summarize([[
+      route('/*all?', 'a.tsx'),
+      route('/docs/:id=int', 'b.tsx')
+    ]]), [
+      { type: 'shadowed', path: '/docs/:id=int', winner: '/*all?' }
+    ]);
+  });
+
+  test('does not report routes reachable before a broader one', () => {
+    assert.deepEqual(summarize([[
+      route('/docs', 'a.tsx'),
+      route('/docs/:id', 'b.tsx'),
+      route('/docs/*slug?', 'c.tsx'),
+      route('/:section', 'd.tsx')
+    ]]), []);
+  });
+
+  test('reports each unreachable route once', () => {
+    assert.deepEqual(summarize([
+      [route('/*all', 'a.tsx')],
+      [route('/*rest', 'b.tsx'), route('/x', 'c.tsx')]
+    ]), [
+      { type: 'conflict', path: '/*rest', winner: '/*all' },
+      { type: 'shadowed', path: '/x', winner: '/*all' }
+    ]);
+  });
+});
+
+describe('findUnknownMatchers', () => {
+  test('reports matchers missing from the config', () => {
+    const diagnostics = findUnknownMatchers([
+      route('/users/:id=int', 'routes/users/[id=int].tsx'),
+      route('/posts/:slug=slug', 'routes/posts/[slug=slug].tsx'),
+      route('/about', 'routes/about.tsx')
+    ], { int: (value) => /^\d+$/.test(value) }, root);
+
+    assert.deepEqual(diagnostics, [{
+      type: 'unknown-matcher',
+      message: 'Unknown route matcher: routes/posts/[slug=slug].tsx (/posts/:slug=slug) uses "slug". Register it in flexireact.config.js under "matchers".',
+      path: '/posts/:slug=slug',
+      filePath: path.join(root, 'routes/posts/[slug=slug].tsx')
+    }]);
+  });
+});
+
+describe('createRouteError', () => {
+  test('lists the conflicts and unknown matchers, not the shadowed routes', () => {
+    const diagnostics = [
+      ...findRouteConflicts([
+        [route('/*all', 'a.tsx'), route('/about', 'b.tsx')],
+        [route('/*rest', 'c.tsx')]
+      ], root),
+      ...findUnknownMatchers([route('/:id=int', 'd.tsx')], {}, root)
+    ];
+
+    assert.equal(
+      createRouteError(diagnostics).message,
+      'Found 2 route errors:\n' +
+      '  - Route conflict: a.tsx (/*all) and c.tsx (/*rest) match the same URLs. a.tsx wins.\n' +
+      '  - Unknown route matcher: d.tsx (/:id=int) uses "int". Register it in flexireact.config.js under "matchers".'
+    );
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * FlexiReact Route Diagnostics
+ * Finds routes that can never be reached: two files resolving to the same path
+ * (conflicts), a route that always loses to a broader one matched first (shadowed),
+ * or a constrained param whose matcher isn't registered (unknown-matcher).
+ */
+
+import path from 'path';
+import { parseRouteSegment, RouteSegment } from './segments.js';
+import type { RouteDiagnostic } from '../types.js';
+
+/**
+ * Normalizes a route path so that routes matching the same URLs compare equal.
+ * Param names are dropped: `/blog/:slug` and `/blog/:id` both become `/blog/:`.
+ */
+function getRouteShape(segments: RouteSegment[]): string {
+  return '/' + segments.map((segment) => {
+    switch (segment.type) {
+      case 'optional-catch-all':
+        return '*?';
+      case 'catch-all':
+        return '*';
+      case 'dynamic':
+        return segment.matcher ? `:=${segment.matcher}` : ':';
+      default:
+        return segment.name;
+    }
+  }).join('/');
+}
+
+/**
+ * Checks whether every URL matched by `b` is also matched by `a`
+ */
+function covers(a: RouteSegment[], b: RouteSegment[]): boolean {
+  if (a.length === 0) return b.length === 0;
+
+  const [head, ...rest] = a;
+
+  // Catch-alls are always last
+  if (head.type === 'optional-catch-all') return true;
+  if (head.type === 'catch-all') {
+    return b.some((segment) => segment.type !== 'optional-catch-all');
+  }
+
+  if (b.length === 0) return false;
+
+  const [other, ...otherRest] = b;
+
+  if (other.type === 'catch-all' || other.type === 'optional-catch-all') return false;
+
+  if (head.type === 'static') {
+    if (other.type !== 'static' || other.name !== head.name) return false;
+  } else if (head.matcher) {
+    // A matcher only covers params checked by the same matcher
+    if (other.type !== 'dynamic' || other.matcher !== head.matcher) return false;
+  }
+
+  return covers(rest, otherRest);
+}
+
+/**
+ * Finds conflicting and shadowed routes.
+ * `groups` are lists of routes in the order the server tries them,
+ * each already sorted by specificity.
+ */
+export function findRouteConflicts(groups: any[][], projectRoot: string): RouteDiagnostic[] {
+  const diagnostics: RouteDiagnostic[] = [];
+  const toRelative = (filePath) => path.relative(projectRoot, filePath).replace(/\\/g, '/');
+
+  const candidates = groups.flat().map((route) => {
+    const segments = route.path.split('/').filter(Boolean).map(parseRouteSegment);
+    return { route, segments, shape: getRouteShape(segments) };
+  });
+
+  candidates.forEach((candidate, index) => {
+    for (const winner of candidates.slice(0, index)) {
+      const sameShape = winner.shape === candidate.shape;
+
+      if (!sameShape && !covers(winner.segments, candidate.segments)) {
+        continue;
+      }
+
+      const file = toRelative(candidate.route.filePath);
+      const winnerFile = toRelative(winner.route.filePath);
+
+      diagnostics.push({
+        type: sameShape ? 'conflict' : 'shadowed',
+        message: sameShape
+          ? winner.route.path === candidate.route.path
+            ? `Route conflict: ${winnerFile} and ${file} both resolve to ${candidate.route.path}. ${winnerFile} wins.`
+            : `Route conflict: ${winnerFile} (${winner.route.path}) and ${file} (${candidate.route.path}) match the same URLs. ${winnerFile} wins.`
+          : `Route shadowed: ${file} (${candidate.route.path}) is never reached, ${winnerFile} (${winner.route.path}) matches first.`,
+        path: candidate.route.path,
+        filePath: candidate.route.filePath,
+        winner: {
+          path: winner.route.path,
+          filePath: winner.route.filePath
+        }
+      });
+
+      // One diagnostic per unreachable route
+      break;
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Finds constrained params (`[id=int]`) whose matcher isn't in `config.matchers`
+ */
+export function findUnknownMatchers(routes: any[], matchers: Record<string, any> = {}, projectRoot: string): RouteDiagnostic[] {
+  const diagnostics: RouteDiagnostic[] = [];
+
+  for (const route of routes) {
+    const unknown = route.path.split('/').filter(Boolean).map(parseRouteSegment)
+      .filter((segment) => segment.matcher && typeof matchers[segment.matcher] !== 'function');
+
+    for (const segment of unknown) {
+      const file = path.relative(projectRoot, route.filePath).replace(/\\/g, '/');
+
+      diagnostics.push({
+        type: 'unknown-matcher',
+        message: `Unknown route matcher: ${file} (${route.path}) uses "${segment.matcher}". Register it in flexireact.config.js under "matchers".`,
+        path: route.path,
+        filePath: route.filePath
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Formats the diagnostics that fail a build as an error: conflicts and unknown matchers
+ */
+export function createRouteError(diagnostics: RouteDiagnostic[]): Error {
+  const errors = diagnostics.filter((diagnostic) => diagnostic.type !== 'shadowed');
+  const lines = errors.map((diagnostic) => `  - ${diagnostic.message}`);
+
+  return new Error(`Found ${errors.length} route error${errors.length === 1 ? '' : 's'}:\n${lines.join('\n')}`);
+}
+
+export default {
+  findRouteConflicts,
+  findUnknownMatchers,
+  createRouteError
+};
@@ -11,6 +11,11 @@
 import fs from 'fs';
 import path from 'path';
 import { isServerComponent, isClientComponent, isIsland } from '../utils.js';
+import { sortRoutes, compareRoutePaths } from './specificity.js';
+import { toRouteSegment, parseRouteSegment } from './segments.js';
+import { findRouteConflicts } from './diagnostics.js';
+
+export { sortRoutes, compareRoutePaths, findRouteConflicts };
 
 /**
  * Route types
@@ -19,9 +24,21 @@ export const RouteType = {
   PAGE: 'page',
   API: 'api',
   LAYOUT: 'layout',
+  TEMPLATE: 'template',
   LOADING: 'loading',
   ERROR: 'error',
-  NOT_FOUND: 'not-found'
+  NOT_FOUND: 'not-found',
+  GLOBAL_ERROR: 'global-error'
+};
+
+/**
+ * Files that shape the routes of their directory instead of being routes,
+ * per routing directory
+ */
+const SPECIAL_FILES = {
+  routes: ['layout', 'template', 'loading', 'error', 'not-found', 'global-error', '_middleware', 'middleware'],
+  app: ['layout', 'template', 'loading', 'error', 'not-found', 'global-error', '_middleware', 'middleware'],
+  pages: ['layout', 'loading', 'error', 'not-found', '404']
 };
 
 /**
@@ -38,13 +55,18 @@ export function buildRouteTree(pagesDir, layoutsDir, appDir = null, routesDir =
     appRoutes: any[];
     flexiRoutes: any[];
     rootLayout?: string;
+    notFound?: any;
+    globalError?: string;
+    diagnostics?: any[];
+    directories?: Map<string, any>;
   } = {
     pages: [],
     api: [],
     layouts: new Map(),
     tree: {},
     appRoutes: [],    // Next.js style app router routes
-    flexiRoutes: []   // FlexiReact v4 routes/ directory
+    flexiRoutes: [],  // FlexiReact v4 routes/ directory
+    directories: new Map()  // Scanned directories, so single files can be updated later
   };
 
   // 1. Scan routes/ directory (FlexiReact v4 - priority)
@@ -78,10 +100,111 @@ export function buildRouteTree(pagesDir, layoutsDir, appDir = null, routesDir =
     routes.rootLayout = rootLayoutPathJs;
   }
 
+  finalizeRouteTree(routes, projectRoot);
+
+  return routes;
+}
+
+/**
+ * Sorts the route lists and derives the diagnostics and nested tree from them
+ */
+function finalizeRouteTree(routes, projectRoot) {
+  // Most specific routes first, so matching doesn't depend on scan order
+  routes.flexiRoutes = sortRoutes(routes.flexiRoutes);
+  routes.appRoutes = sortRoutes(routes.appRoutes);
+  routes.pages = sortRoutes(routes.pages);
+  routes.api = sortRoutes(routes.api);
+
+  // Conflicting and shadowed routes, in the order the server matches them
+  routes.diagnostics = [
+    ...findRouteConflicts([routes.api], projectRoot),
+    ...findRouteConflicts([routes.flexiRoutes, routes.appRoutes, routes.pages], projectRoot)
+  ];
+
   // Build route tree for nested routes
   routes.tree = buildTree([...routes.flexiRoutes, ...routes.appRoutes, ...routes.pages]);
+}
 
-  return routes;
+/**
+ * Applies file changes to a route tree built by `buildRouteTree`, touching only
+ * the routes of the changed files. `event` is the `fs.watch` event type:
+ * `rename` when a file was added or removed, `change` when it was edited.
+ *
+ * Returns false, leaving the tree untouched, when a change reaches beyond its
+ * own route (a layout, middleware or directory was added or removed), in which
+ * case the tree has to be rebuilt.
+ */
+export function updateRouteTree(routes, changes: Array<{ event: string; filePath: string }>, projectRoot: string): boolean {
+  const directories = routes.directories;
+  if (!directories) return false;
+
+  const updates = [];
+
+  for (const { event, filePath } of changes) {
+    const directory = directories.get(path.dirname(filePath));
+
+    // A removed directory takes its routes with it
+    if (directories.has(filePath)) return false;
+
+    // Files in skipped directories (`_components/`) aren't routes. A new directory
+    // is reported itself, before its files.
+    if (!directory) continue;
+
+    const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+    if (stats?.isDirectory()) return false;
+
+    const name = path.basename(filePath).replace(/\.(jsx|js|tsx|ts)$/, '');
+    if (SPECIAL_FILES[directory.source].includes(name)) {
+      // Editing a layout doesn't change the routes, adding or removing one does
+      if (event === 'rename') return false;
+      continue;
+    }
+
+    updates.push({ filePath, directory, exists: Boolean(stats) });
+  }
+
+  if (updates.length === 0) return true;
+
+  for (const { filePath, directory, exists } of updates) {
+    for (const list of ['flexiRoutes', 'appRoutes', 'pages', 'api']) {
+      routes[list] = routes[list].filter((route) => route.filePath !== filePath);
+    }
+
+    const route = exists ? createRouteEntry(filePath, directory) : null;
+    if (route) addRouteEntry(routes, route, directory);
+  }
+
+  finalizeRouteTree(routes, projectRoot);
+  return true;
+}
+
+/**
+ * Creates the route for a file in a scanned directory, or null when the file isn't a route
+ */
+function createRouteEntry(filePath, directory) {
+  switch (directory.source) {
+    case 'routes':
+      return createFlexiRoute(filePath, directory);
+    case 'app':
+      return createAppRoute(filePath, directory);
+    default:
+      return createPagesRoute(filePath, directory);
+  }
+}
+
+/**
+ * Adds a route to the list for its type and routing directory
+ */
+function addRouteEntry(routes, route, directory) {
+  if (route.type === RouteType.API) {
+    routes.api.push(route);
+  } else if (directory.source === 'routes') {
+    routes.flexiRoutes.push(route);
+  } else if (directory.source === 'app') {
+    routes.appRoutes.push(route);
+  } else {
+    routes.pages.push(route);
+  }
 }
 
 /**
@@ -92,94 +215,66 @@ export function buildRouteTree(pagesDir, layoutsDir, appDir = null, routesDir =
  * - about.tsx → /about
  * - blog/index.tsx → /blog
  * - blog/[slug].tsx → /blog/:slug
+ * - users/[id=int].tsx → /users/:id=int (only when the `int` matcher accepts the value)
+ * - docs/[...slug].tsx → /docs/*slug
+ * - docs/[[...slug]].tsx → /docs/*slug? (also matches /docs)
  * - (public)/home.tsx → / (route group, not in URL)
  * - api/hello.ts → /api/hello (API route)
  * - dashboard/layout.tsx → layout for /dashboard/*
  */
-function scanRoutesDirectory(baseDir, currentDir, routes, parentSegments = [], parentLayout = null, parentMiddleware = null) {
+function scanRoutesDirectory(baseDir, currentDir, routes, parentSegments = [], parentChain = [], parentMiddleware = null) {
   const entries = fs.readdirSync(currentDir, { withFileTypes: true });
 
   // Find special files in current directory
   let layoutFile = null;
+  let templateFile = null;
   let loadingFile = null;
   let errorFile = null;
+  let notFoundFile = null;
   let middlewareFile = null;
 
   for (const entry of entries) {
     if (entry.isFile()) {
       const name = entry.name.replace(/\.(jsx|js|tsx|ts)$/, '');
       const fullPath = path.join(currentDir, entry.name);
-      const ext = path.extname(entry.name);
 
-      // Special files
       if (name === 'layout') layoutFile = fullPath;
+      if (name === 'template') templateFile = fullPath;
       if (name === 'loading') loadingFile = fullPath;
       if (name === 'error') errorFile = fullPath;
+      if (name === 'not-found') notFoundFile = fullPath;
+      if (name === 'global-error' && currentDir === baseDir) routes.globalError ??= fullPath;
       if (name === '_middleware' || name === 'middleware') middlewareFile = fullPath;
+    }
+  }
 
-      // Skip special files and non-route files
-      if (['layout', 'loading', 'error', 'not-found', '_middleware', 'middleware'].includes(name)) continue;
-      if (!['.tsx', '.jsx', '.ts', '.js'].includes(ext)) continue;
-
-      // API routes (in api/ folder or .ts/.js files in api/)
-      const relativePath = path.relative(baseDir, currentDir);
-      const isApiRoute = relativePath.startsWith('api') || relativePath.startsWith('api/');
-
-      if (isApiRoute && ['.ts', '.js'].includes(ext)) {
-        const apiPath = '/' + [...parentSegments, name === 'index' ? '' : name].filter(Boolean).join('/');
-        routes.api.push({
-          type: RouteType.API,
-          path: apiPath.replace(/\/+/g, '/') || '/',
-          filePath: fullPath,
-          pattern: createRoutePattern(apiPath),
-          segments: [...parentSegments, name === 'index' ? '' : name].filter(Boolean)
-        });
-        continue;
-      }
+  const layoutChain = extendLayoutChain(parentChain, {
+    layout: layoutFile,
+    template: templateFile,
+    error: errorFile,
+    notFound: notFoundFile
+  });
+  const middleware = middlewareFile || parentMiddleware;
 
-      // Page routes
-      if (['.tsx', '.jsx'].includes(ext)) {
-        let routePath;
-
-        // home.tsx → /
-        if (name === 'home' && parentSegments.length === 0) {
-          routePath = '/';
-        }
-        // index.tsx → parent path
-        else if (name === 'index') {
-          routePath = '/' + parentSegments.join('/') || '/';
-        }
-        // [param].tsx → /:param
-        else if (name.startsWith('[') && name.endsWith(']')) {
-          const paramName = name.slice(1, -1);
-          // Handle catch-all [...slug]
-          if (paramName.startsWith('...')) {
-            routePath = '/' + [...parentSegments, '*' + paramName.slice(3)].join('/');
-          } else {
-            routePath = '/' + [...parentSegments, ':' + paramName].join('/');
-          }
-        }
-        // regular.tsx → /regular
-        else {
-          routePath = '/' + [...parentSegments, name].join('/');
-        }
-
-        routes.flexiRoutes.push({
-          type: RouteType.PAGE,
-          path: routePath.replace(/\/+/g, '/'),
-          filePath: fullPath,
-          pattern: createRoutePattern(routePath),
-          segments: routePath.split('/').filter(Boolean),
-          layout: layoutFile || parentLayout,
-          loading: loadingFile,
-          error: errorFile,
-          middleware: middlewareFile || parentMiddleware,
-          isFlexiRouter: true,
-          isServerComponent: isServerComponent(fullPath),
-          isClientComponent: isClientComponent(fullPath),
-          isIsland: isIsland(fullPath)
-        });
-      }
+  if (currentDir === baseDir) {
+    setRootNotFound(routes, layoutChain);
+  }
+
+  const directory = {
+    source: 'routes',
+    baseDir,
+    segments: parentSegments,
+    layoutChain,
+    template: templateFile,
+    loading: loadingFile,
+    middleware
+  };
+  routes.directories?.set(currentDir, directory);
+
+  for (const entry of entries) {
+    if (entry.isFile()) {
+      const route = createFlexiRoute(path.join(currentDir, entry.name), directory);
+      if (route) addRouteEntry(routes, route, directory);
     }
   }
 
@@ -196,30 +291,86 @@ function scanRoutesDirectory(baseDir, currentDir, routes, parentSegments = [], p
       const isGroup = dirName.startsWith('(') && dirName.endsWith(')');
 
       // Handle dynamic segments [param]
-      let segmentName = dirName;
-      if (dirName.startsWith('[') && dirName.endsWith(']')) {
-        const paramName = dirName.slice(1, -1);
-        if (paramName.startsWith('...')) {
-          segmentName = '*' + paramName.slice(3);
-        } else {
-          segmentName = ':' + paramName;
-        }
-      }
+      const segmentName = toRouteSegment(dirName);
 
       const newSegments = isGroup ? parentSegments : [...parentSegments, segmentName];
-      const newLayout = layoutFile || parentLayout;
-      const newMiddleware = middlewareFile || parentMiddleware;
 
-      scanRoutesDirectory(baseDir, fullPath, routes, newSegments, newLayout, newMiddleware);
+      scanRoutesDirectory(baseDir, fullPath, routes, newSegments, layoutChain, middleware);
     }
   }
 }
 
+/**
+ * Creates the route for a file in routes/: an API route under api/, a page otherwise
+ */
+function createFlexiRoute(fullPath, directory) {
+  const { baseDir, segments: parentSegments, layoutChain } = directory;
+  const ext = path.extname(fullPath);
+  const name = path.basename(fullPath, ext);
+
+  // Skip special files and non-route files
+  if (SPECIAL_FILES.routes.includes(name)) return null;
+  if (!['.tsx', '.jsx', '.ts', '.js'].includes(ext)) return null;
+
+  // API routes (in api/ folder or .ts/.js files in api/)
+  const relativePath = path.relative(baseDir, path.dirname(fullPath));
+  const isApiRoute = relativePath.startsWith('api') || relativePath.startsWith('api/');
+
+  if (isApiRoute && ['.ts', '.js'].includes(ext)) {
+    const apiSegments = [...parentSegments, name === 'index' ? '' : toRouteSegment(name)].filter(Boolean);
+    const apiPath = '/' + apiSegments.join('/');
+    return {
+      type: RouteType.API,
+      path: apiPath.replace(/\/+/g, '/') || '/',
+      filePath: fullPath,
+      pattern: createRoutePattern(apiPath),
+      segments: apiSegments
+    };
+  }
+
+  // Page routes
+  if (!['.tsx', '.jsx'].includes(ext)) return null;
+
+  let routePath;
+
+  // home.tsx → /
+  if (name === 'home' && parentSegments.length === 0) {
+    routePath = '/';
+  }
+  // index.tsx → parent path
+  else if (name === 'index') {
+    routePath = '/' + parentSegments.join('/') || '/';
+  }
+  // regular.tsx → /regular, [param].tsx → /:param
+  else {
+    routePath = '/' + [...parentSegments, toRouteSegment(name)].join('/');
+  }
+
+  return {
+    type: RouteType.PAGE,
+    path: routePath.replace(/\/+/g, '/'),
+    filePath: fullPath,
+    pattern: createRoutePattern(routePath),
+    segments: routePath.split('/').filter(Boolean),
+    layout: getNearestEntry(layoutChain, RouteType.LAYOUT),
+    layoutChain,
+    template: directory.template,
+    loading: directory.loading,
+    error: getNearestEntry(layoutChain, RouteType.ERROR),
+    notFound: getNearestEntry(layoutChain, RouteType.NOT_FOUND),
+    middleware: directory.middleware,
+    isFlexiRouter: true,
+    isServerComponent: isServerComponent(fullPath),
+    isClientComponent: isClientComponent(fullPath),
+    isIsland: isIsland(fullPath)
+  };
+}
+
 /**
  * Scans app directory for Next.js style routing
  * Supports: page.tsx, layout.tsx, loading.tsx, error.tsx, not-found.tsx
  */
-function scanAppDirectory(baseDir, currentDir, routes, parentSegments = [], parentLayout = null, parentMiddleware = null) {
+function scanAppDirectory(baseDir, currentDir, routes, parentSegments = [], parentChain = [], parentMiddleware = null) {
   const entries = fs.readdirSync(currentDir, { withFileTypes: true });
 
   // Find special files in current directory
@@ -243,32 +394,32 @@ function scanAppDirectory(baseDir, currentDir, routes, parentSegments = [], pare
       if (name === 'loading') specialFiles.loading = fullPath;
       if (name === 'error') specialFiles.error = fullPath;
       if (name === 'not-found') specialFiles.notFound = fullPath;
+      if (name === 'global-error' && currentDir === baseDir) routes.globalError ??= fullPath;
       if (name === 'template') specialFiles.template = fullPath;
       if (name === 'middleware' || name === '_middleware') specialFiles.middleware = fullPath;
     }
   }
 
+  const layoutChain = extendLayoutChain(parentChain, specialFiles);
+
+  if (currentDir === baseDir) {
+    setRootNotFound(routes, layoutChain);
+  }
+
+  const directory = {
+    source: 'app',
+    baseDir,
+    segments: parentSegments,
+    layoutChain,
+    template: specialFiles.template,
+    loading: specialFiles.loading,
+    middleware: specialFiles.middleware || parentMiddleware
+  };
+  routes.directories?.set(currentDir, directory);
+
   // If there's a page.tsx, create a route
   if (specialFiles.page) {
-    const routePath = '/' + parentSegments.join('/') || '/';
-
-    routes.appRoutes.push({
-      type: RouteType.PAGE,
-      path: routePath.replace(/\/+/g, '/'),
-      filePath: specialFiles.page,
-      pattern: createRoutePattern(routePath),
-      segments: parentSegments,
-      layout: specialFiles.layout || parentLayout,
-      loading: specialFiles.loading,
-      error: specialFiles.error,
-      notFound: specialFiles.notFound,
-      template: specialFiles.template,
-      middleware: specialFiles.middleware || parentMiddleware,
-      isAppRouter: true,
-      isServerComponent: isServerComponent(specialFiles.page),
-      isClientComponent: isClientComponent(specialFiles.page),
-      isIsland: isIsland(specialFiles.page)
-    });
+    addRouteEntry(routes, createAppRoute(specialFiles.page, directory), directory);
   }
 
   // Recursively scan subdirectories
@@ -279,28 +430,104 @@ function scanAppDirectory(baseDir, currentDir, routes, parentSegments = [], pare
       // Handle route groups (parentheses) - don't add to URL
       const isGroup = entry.name.startsWith('(') && entry.name.endsWith(')');
 
-      // Handle dynamic segments [param]
-      let segmentName = entry.name;
-      if (entry.name.startsWith('[') && entry.name.endsWith(']')) {
-        // Convert [param] to :param
-        segmentName = ':' + entry.name.slice(1, -1);
-        // Handle catch-all [...param]
-        if (entry.name.startsWith('[...')) {
-          segmentName = '*' + entry.name.slice(4, -1);
-        }
-        // Handle optional catch-all [[...param]]
-        if (entry.name.startsWith('[[...')) {
-          segmentName = '*' + entry.name.slice(5, -2);
-        }
-      }
+      // Handle dynamic segments [param], [...param] and [[...param]]
+      const segmentName = toRouteSegment(entry.name);
 
       const newSegments = isGroup ? parentSegments : [...parentSegments, segmentName];
-      const newLayout = specialFiles.layout || parentLayout;
       const newMiddleware = specialFiles.middleware || parentMiddleware;
 
-      scanAppDirectory(baseDir, fullPath, routes, newSegments, newLayout, newMiddleware);
+      scanAppDirectory(baseDir, fullPath, routes, newSegments, layoutChain, newMiddleware);
+    }
+  }
+}
+
+/**
+ * Creates the route for a page.tsx in app/, or null for any other file
+ */
+function createAppRoute(filePath, directory) {
+  if (path.basename(filePath).replace(/\.(jsx|js|tsx|ts)$/, '') !== 'page') return null;
+
+  const { segments, layoutChain } = directory;
+  const routePath = '/' + segments.join('/') || '/';
+
+  return {
+    type: RouteType.PAGE,
+    path: routePath.replace(/\/+/g, '/'),
+    filePath,
+    pattern: createRoutePattern(routePath),
+    segments,
+    layout: getNearestEntry(layoutChain, RouteType.LAYOUT),
+    layoutChain,
+    loading: directory.loading,
+    error: getNearestEntry(layoutChain, RouteType.ERROR),
+    notFound: getNearestEntry(layoutChain, RouteType.NOT_FOUND),
+    template: directory.template,
+    middleware: directory.middleware,
+    isAppRouter: true,
+    isServerComponent: isServerComponent(filePath),
+    isClientComponent: isClientComponent(filePath),
+    isIsland: isIsland(filePath)
+  };
+}
+
+/**
+ * Adds a directory's special files to the chain inherited from its parents.
+ * The chain is ordered from the root down: layout, template, error, then not-found,
+ * per directory. So an error or not-found page renders inside the layouts before it.
+ */
+function extendLayoutChain(parentChain, { layout = null, template = null, error = null, notFound = null }) {
+  const chain = [...parentChain];
+
+  if (layout) chain.push({ type: RouteType.LAYOUT, filePath: layout });
+  if (template) chain.push({ type: RouteType.TEMPLATE, filePath: template });
+  if (error) chain.push({ type: RouteType.ERROR, filePath: error });
+  if (notFound) chain.push({ type: RouteType.NOT_FOUND, filePath: notFound });
+
+  return chain;
+}
+
+/**
+ * Gets the innermost file of a given type in a chain
+ */
+function getNearestEntry(layoutChain, type) {
+  const entries = layoutChain.filter((entry) => entry.type === type);
+  return entries.length > 0 ? entries[entries.length - 1].filePath : null;
+}
+
+/**
+ * Records the root not-found page, used for URLs that match no route.
+ * The first routing directory that has one wins.
+ */
+function setRootNotFound(routes, layoutChain) {
+  const index = layoutChain.findIndex((entry) => entry.type === RouteType.NOT_FOUND);
+  if (index === -1 || routes.notFound) return;
+
+  routes.notFound = {
+    type: RouteType.NOT_FOUND,
+    path: '/',
+    filePath: layoutChain[index].filePath,
+    segments: [],
+    layoutChain: layoutChain.slice(0, index)
+  };
+}
+
+/**
+ * Gets the chain entries that wrap the nearest file of a given type (error or not-found).
+ * Returns null when no directory up the tree has one.
+ */
+export function findBoundary(route, type) {
+  const chain = route.layoutChain || [];
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (chain[i].type === type) {
+      return {
+        filePath: chain[i].filePath,
+        route: { ...route, layoutChain: chain.slice(0, i) }
+      };
     }
   }
+
+  return null;
 }
 
 /**
@@ -329,9 +556,15 @@ function scanDirectory(baseDir, currentDir, routes, parentSegments = []) {
     }
   }
 
+  if (currentDir === baseDir && specialFiles.notFound) {
+    setRootNotFound(routes, [{ type: RouteType.NOT_FOUND, filePath: specialFiles.notFound }]);
+  }
+
+  const directory = { source: 'pages', baseDir, specialFiles };
+  routes.directories?.set(currentDir, directory);
+
   for (const entry of entries) {
     const fullPath = path.join(currentDir, entry.name);
-    const relativePath = path.relative(baseDir, fullPath);
 
     if (entry.isDirectory()) {
       // Handle route groups (parentheses)
@@ -340,27 +573,36 @@ function scanDirectory(baseDir, currentDir, routes, parentSegments = []) {
 
       scanDirectory(baseDir, fullPath, routes, newSegments);
     } else if (entry.isFile()) {
-      const ext = path.extname(entry.name);
-      const baseName = path.basename(entry.name, ext);
-
-      // Skip special files (already processed)
-      if (['layout', 'loading', 'error', 'not-found', '404'].includes(baseName)) {
-        continue;
-      }
-
-      if (['.jsx', '.js', '.tsx', '.ts'].includes(ext)) {
-        const isApi = relativePath.startsWith('api' + path.sep) || relativePath.startsWith('api/');
-
-        if (isApi && ['.js', '.ts'].includes(ext)) {
-          routes.api.push(createRoute(fullPath, baseDir, specialFiles, RouteType.API));
-        } else if (!isApi && ['.jsx', '.tsx'].includes(ext)) {
-          routes.pages.push(createRoute(fullPath, baseDir, specialFiles, RouteType.PAGE));
-        }
-      }
+      const route = createPagesRoute(fullPath, directory);
+      if (route) addRouteEntry(routes, route, directory);
     }
   }
 }
 
+/**
+ * Creates the route for a file in pages/: an API route under api/, a page otherwise
+ */
+function createPagesRoute(fullPath, directory) {
+  const { baseDir, specialFiles } = directory;
+  const ext = path.extname(fullPath);
+  const baseName = path.basename(fullPath, ext);
+
+  // Skip special files (already processed)
+  if (SPECIAL_FILES.pages.includes(baseName)) return null;
+  if (!['.jsx', '.js', '.tsx', '.ts'].includes(ext)) return null;
+
+  const relativePath = path.relative(baseDir, fullPath);
+  const isApi = relativePath.startsWith('api' + path.sep) || relativePath.startsWith('api/');
+
+  if (isApi && ['.js', '.ts'].includes(ext)) {
+    return createRoute(fullPath, baseDir, specialFiles, RouteType.API);
+  } else if (!isApi && ['.jsx', '.tsx'].includes(ext)) {
+    return createRoute(fullPath, baseDir, specialFiles, RouteType.PAGE);
+  }
+
+  return null;
+}
+
 /**
  * Creates a route object from file path
  */
@@ -407,9 +649,8 @@ function filePathToRoute(filePath) {
   // Remove extension
   route = route.replace(/\.(jsx|js|tsx|ts)$/, '');
 
-  // Convert [param] to :param
-  route = route.replace(/\[\.\.\.([^\]]+)\]/g, '*$1'); // Catch-all [...slug]
-  route = route.replace(/\[([^\]]+)\]/g, ':$1');
+  // Convert [param] to :param, [...slug] to *slug and [[...slug]] to *slug?
+  route = route.split('/').map(toRouteSegment).join('/');
 
   // Handle index files
   if (route.endsWith('/index')) {
@@ -431,13 +672,31 @@ function filePathToRoute(filePath) {
 }
 
 /**
- * Creates regex pattern for route matching
+ * Creates regex pattern for route matching.
+ * Each param gets one capture group, in path order.
  */
 function createRoutePattern(routePath) {
-  let pattern = routePath
-    .replace(/\*[^/]*/g, '(.*)') // Catch-all
-    .replace(/:[^/]+/g, '([^/]+)') // Dynamic segments
-    .replace(/\//g, '\\/');
+  const segments = routePath.split('/').filter(Boolean);
+
+  if (segments.length === 0) {
+    return /^\/$/;
+  }
+
+  const pattern = segments.map((segment) => {
+    const parsed = parseRouteSegment(segment);
+
+    switch (parsed.type) {
+      case 'optional-catch-all':
+        // Also matches the parent path
+        return '(?:\\/(.*))?';
+      case 'catch-all':
+        return '\\/(.+)';
+      case 'dynamic':
+        return '\\/([^/]+)';
+      default:
+        return '\\/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }).join('');
 
   return new RegExp(`^${pattern}$`);
 }
@@ -465,17 +724,22 @@ function buildTree(routes) {
 }
 
 /**
- * Matches URL path against routes
+ * Matches URL path against routes.
+ * Routes from `buildRouteTree` are ranked by specificity, so the first match wins.
+ * Constrained params (`[id=int]`) are checked with `matchers` (from `config.matchers`);
+ * when one rejects its value, matching falls through to the next route.
  */
-export function matchRoute(urlPath, routes) {
+export function matchRoute(urlPath, routes, matchers: Record<string, (value: string) => boolean> = {}) {
   const normalizedPath = urlPath === '' ? '/' : urlPath.split('?')[0];
 
   for (const route of routes) {
     const match = normalizedPath.match(route.pattern);
 
     if (match) {
-      const params = extractParams(route.path, match);
-      return { ...route, params };
+      const params = extractParams(route.path, match, matchers);
+      if (params) {
+        return { ...route, params };
+      }
     }
   }
 
@@ -483,29 +747,57 @@ export function matchRoute(urlPath, routes) {
 }
 
 /**
- * Extracts parameters from route match
+ * Extracts parameters from route match.
+ * Catch-alls become arrays of segments. Returns null when a param matcher rejects its value.
  */
-function extractParams(routePath, match) {
-  const params = {};
-  const paramNames = [];
+function extractParams(routePath, match, matchers = {}) {
+  const params: Record<string, string | string[]> = {};
+  let index = 1;
+
+  for (const segment of routePath.split('/').filter(Boolean)) {
+    const parsed = parseRouteSegment(segment);
+    if (parsed.type === 'static') continue;
+
+    const value = match[index++];
+
+    if (parsed.type === 'catch-all' || parsed.type === 'optional-catch-all') {
+      params[parsed.name] = value ? value.split('/').filter(Boolean) : [];
+      continue;
+    }
 
-  // Extract param names from route path
-  const paramRegex = /:([^/]+)|\*([^/]*)/g;
-  let paramMatch;
+    if (parsed.matcher) {
+      const matcher = matchers[parsed.matcher];
 
-  while ((paramMatch = paramRegex.exec(routePath)) !== null) {
-    paramNames.push(paramMatch[1] || paramMatch[2] || 'splat');
+      // Unknown matchers fail the build and are reported by the dev server, nothing matches them
+      if (typeof matcher !== 'function' || !matcher(value)) {
+        return null;
+      }
+    }
+
+    params[parsed.name] = value;
   }
 
-  paramNames.forEach((name, index) => {
-    params[name] = match[index + 1];
+  return params;
+}
+
+/**
+ * Builds a URL path from a route path and params (the reverse of `matchRoute`)
+ */
+export function buildRoutePath(routePath, params: Record<string, string | string[]> = {}) {
+  const segments = routePath.split('/').filter(Boolean).map((segment) => {
+    const parsed = parseRouteSegment(segment);
+    if (parsed.type === 'static') return segment;
+
+    const value = params[parsed.name];
+    return Array.isArray(value) ? value.join('/') : (value ?? '');
   });
 
-  return params;
+  return '/' + segments.filter(Boolean).join('/');
 }
 
 /**
- * Finds all layouts that apply to a route
+ * Finds all layouts that apply to a route, outermost first.
+ * Layouts from the layouts/ directory wrap the route's own layout chain.
  */
 export function findRouteLayouts(route, layoutsMap) {
   const layouts = [];
@@ -519,15 +811,27 @@ export function findRouteLayouts(route, layoutsMap) {
     if (layoutsMap.has(layoutName)) {
       layouts.push({
         name: layoutName,
+        type: RouteType.LAYOUT,
         filePath: layoutsMap.get(layoutName)
       });
     }
   }
 
-  // Check for route-specific layout
-  if (route.layout) {
+  // Check for the route's layout chain (layout.tsx and template.tsx, root first)
+  if (route.layoutChain?.length) {
+    for (const entry of route.layoutChain) {
+      if (entry.type !== RouteType.LAYOUT && entry.type !== RouteType.TEMPLATE) continue;
+
+      layouts.push({
+        name: entry.type,
+        type: entry.type,
+        filePath: entry.filePath
+      });
+    }
+  } else if (route.layout) {
     layouts.push({
       name: 'route',
+      type: RouteType.LAYOUT,
       filePath: route.layout
     });
   }
@@ -536,6 +840,7 @@ export function findRouteLayouts(route, layoutsMap) {
   if (layoutsMap.has('root')) {
     layouts.unshift({
       name: 'root',
+      type: RouteType.LAYOUT,
       filePath: layoutsMap.get('root')
     });
   }
@@ -543,9 +848,149 @@ export function findRouteLayouts(route, layoutsMap) {
   return layouts;
 }
 
+/**
+ * Route fields that point at source files
+ */
+const ROUTE_FILE_FIELDS = ['filePath', 'layout', 'loading', 'error', 'notFound', 'template', 'middleware'];
+
+/**
+ * Lists every source file referenced by a route tree
+ */
+export function getRouteTreeFiles(routes) {
+  const files = new Set<string>();
+
+  for (const route of [...routes.flexiRoutes, ...routes.appRoutes, ...routes.pages, ...routes.api]) {
+    for (const field of ROUTE_FILE_FIELDS) {
+      if (route[field]) files.add(route[field]);
+    }
+
+    for (const entry of route.layoutChain || []) {
+      files.add(entry.filePath);
+    }
+  }
+
+  for (const layoutPath of routes.layouts.values()) {
+    files.add(layoutPath);
+  }
+
+  if (routes.rootLayout) {
+    files.add(routes.rootLayout);
+  }
+
+  if (routes.notFound) {
+    files.add(routes.notFound.filePath);
+    routes.notFound.layoutChain.forEach((entry) => files.add(entry.filePath));
+  }
+
+  if (routes.globalError) {
+    files.add(routes.globalError);
+  }
+
+  return Array.from(files);
+}
+
+/**
+ * Converts a route tree to JSON-safe data for the build manifest.
+ * File paths are stored relative to the project root.
+ */
+export function serializeRouteTree(routes, projectRoot) {
+  const toRelative = (filePath) => path.relative(projectRoot, filePath).replace(/\\/g, '/');
+
+  const serializeRoute = (route) => {
+    const { pattern, ...data } = route;
+
+    for (const field of ROUTE_FILE_FIELDS) {
+      if (data[field]) data[field] = toRelative(data[field]);
+    }
+
+    if (data.layoutChain) {
+      data.layoutChain = data.layoutChain.map((entry) => ({ ...entry, filePath: toRelative(entry.filePath) }));
+    }
+
+    return data;
+  };
+
+  return {
+    pages: routes.pages.map(serializeRoute),
+    api: routes.api.map(serializeRoute),
+    appRoutes: routes.appRoutes.map(serializeRoute),
+    flexiRoutes: routes.flexiRoutes.map(serializeRoute),
+    layouts: Array.from(routes.layouts.entries()).map(([name, layoutPath]) => [name, toRelative(layoutPath)]),
+    rootLayout: routes.rootLayout ? toRelative(routes.rootLayout) : null,
+    notFound: routes.notFound ? serializeRoute(routes.notFound) : null,
+    globalError: routes.globalError ? toRelative(routes.globalError) : null
+  };
+}
+
+/**
+ * Restores a route tree serialized with `serializeRouteTree`
+ */
+export function restoreRouteTree(data, projectRoot) {
+  const toAbsolute = (filePath) => path.join(projectRoot, filePath);
+
+  const restoreRoute = (route) => {
+    const restored = { ...route, pattern: createRoutePattern(route.path) };
+
+    for (const field of ROUTE_FILE_FIELDS) {
+      if (restored[field]) restored[field] = toAbsolute(restored[field]);
+    }
+
+    if (restored.layoutChain) {
+      restored.layoutChain = restored.layoutChain.map((entry) => ({ ...entry, filePath: toAbsolute(entry.filePath) }));
+    }
+
+    return restored;
+  };
+
+  const routes: {
+    pages: any[];
+    api: any[];
+    layouts: Map<any, any>;
+    tree: Record<string, any>;
+    appRoutes: any[];
+    flexiRoutes: any[];
+    rootLayout?: string;
+    notFound?: any;
+    globalError?: string;
+    diagnostics?: any[];
+  } = {
+    pages: sortRoutes((data.pages || []).map(restoreRoute)),
+    api: sortRoutes((data.api || []).map(restoreRoute)),
+    layouts: new Map((data.layouts || []).map(([name, layoutPath]) => [name, toAbsolute(layoutPath)])),
+    tree: {},
+    appRoutes: sortRoutes((data.appRoutes || []).map(restoreRoute)),
+    flexiRoutes: sortRoutes((data.flexiRoutes || []).map(restoreRoute))
+  };
+
+  if (data.rootLayout) {
+    routes.rootLayout = toAbsolute(data.rootLayout);
+  }
+
+  if (data.notFound) {
+    routes.notFound = restoreRoute(data.notFound);
+  }
+
+  if (data.globalError) {
+    routes.globalError = toAbsolute(data.globalError);
+  }
+
+  routes.tree = buildTree([...routes.flexiRoutes, ...routes.appRoutes, ...routes.pages]);
+
+  return routes;
+}
+
 export default {
   buildRouteTree,
   matchRoute,
   findRouteLayouts,
+  findBoundary,
+  getRouteTreeFiles,
+  serializeRouteTree,
+  restoreRouteTree,
+  buildRoutePath,
+  sortRoutes,
+  compareRoutePaths,
+  findRouteConflicts,
+  updateRouteTree,
   RouteType
 };
@@ -0,0 +1,106 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildRouteTree, matchRoute } from './index.js';
+import { compareRoutePaths, sortRoutes } from './specificity.js';
+
+const matchers = { int: (value: string) => /^\d+$/.test(value) };
+
+const sortPaths = (paths: string[]) => sortRoutes(paths.map((p) => ({ path: p }))).map((route) => route.path);
+
+describe('compareRoutePaths', () => {
+  test('ranks static, matcher, dynamic, catch-all and optional catch-all segments', () => {
+    assert.deepEqual(
+      sortPaths(['/blog/*slug?', '/blog/*slug', '/blog/:id', '/blog/:id=int', '/blog/new']),
+      ['/blog/new', '/blog/:id=int', '/blog/:id', '/blog/*slug', '/blog/*slug?']
+    );
+  });
+
+  test('ranks a path above its own optional catch-all', () => {
+    assert.deepEqual(sortPaths(['/*all?', '/']), ['/', '/*all?']);
+    assert.deepEqual(sortPaths(['/docs/*slug?', '/docs']), ['/docs', '/docs/*slug?']);
+  });
+
+  test('ranks deeper static routes above an optional catch-all of their parent', () => {
+    assert.deepEqual(
+      sortPaths(['/', '/*all?', '/docs', '/docs/*slug?']),
+      ['/docs', '/docs/*slug?', '/', '/*all?']
+    );
+  });
+
+  test('ranks more segments above fewer once the shared segments tie', () => {
+    assert.equal(Math.sign(compareRoutePaths('/blog/:id/edit', '/blog/:id')), -1);
+    assert.equal(Math.sign(compareRoutePaths('/blog/*slug', '/blog')), -1);
+  });
+
+  test('does not depend on the input order', () => {
+    const paths = ['/*all?', '/a/:b', '/a/*rest', '/a/b', '/', '/a'];
+    assert.deepEqual(sortPaths(paths), sortPaths([...paths].reverse()));
+  });
+});
+
+describe('matchRoute', () => {
+  let root: string;
+  let routes: any;
+
+  const write = (file: string) => {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'export default function Page() { return null; }\n');
+  };
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'flexi-router-'));
+    write('app/page.tsx');
+    write('app/[[...all]]/page.tsx');
+    write('app/docs/page.tsx');
+    write('app/docs/[[...slug]]/page.tsx');
+    write('app/users/[id=int]/page.tsx');
+    write('app/users/[name]/page.tsx');
+    write('app/users/new/page.tsx');
+    write('app/files/[...path]/page.tsx');
+
+    routes = buildRouteTree(path.join(root, 'pages'), path.join(root, 'layouts'));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const match = (url: string) => {
+    const route = matchRoute(url, routes.appRoutes, matchers);
+    return route && { path: route.path, params: route.params };
+  };
+
+  test('matches index pages before their optional catch-all', () => {
+    assert.deepEqual(match('/'), { path: '/', params: {} });
+    assert.deepEqual(match('/docs'), { path: '/docs', params: {} });
+  });
+
+  test('matches optional catch-alls for deeper URLs', () => {
+    assert.deepEqual(match('/docs/a/b'), { path: '/docs/*slug?', params: { slug: ['a', 'b'] } });
+    assert.deepEqual(match('/about'), { path: '/*all?', params: { all: ['about'] } });
+  });
+
+  test('tries static, then matcher, then dynamic segments', () => {
+    assert.equal(match('/users/new')?.path, '/users/new');
+    assert.deepEqual(match('/users/42'), { path: '/users/:id=int', params: { id: '42' } });
+    assert.deepEqual(match('/users/ada'), { path: '/users/:name', params: { name: 'ada' } });
+  });
+
+  test('skips routes whose matcher is not registered', () => {
+    const route = matchRoute('/users/42', routes.appRoutes, {});
+    assert.deepEqual(route && { path: route.path, params: route.params }, { path: '/users/:name', params: { name: '42' } });
+  });
+
+  test('matches catch-alls with one or more segments', () => {
+    assert.deepEqual(match('/files/a/b.txt'), { path: '/files/*path', params: { path: ['a', 'b.txt'] } });
+    assert.equal(match('/files')?.path, '/*all?');
+  });
+
+  test('reports no diagnostics for routes that are all reachable', () => {
+    assert.deepEqual(routes.diagnostics, []);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * FlexiReact Route Segments
+ * Converts file name segments to route path segments and parses them back.
+ *
+ * File name        Route segment   Matches
+ * [id]             :id             one segment
+ * [id=int]         :id=int         one segment accepted by the `int` matcher
+ * [...slug]        *slug           one or more segments
+ * [[...slug]]      *slug?          zero or more segments
+ */
+
+export type RouteSegmentType = 'static' | 'dynamic' | 'catch-all' | 'optional-catch-all';
+
+export interface RouteSegment {
+  type: RouteSegmentType;
+  /** Param name, or the literal text for static segments */
+  name: string;
+  /** Matcher name for constrained params (`[id=int]`) */
+  matcher?: string;
+}
+
+/**
+ * Converts a file or directory name segment to its route path form
+ */
+export function toRouteSegment(name: string): string {
+  if (name.startsWith('[[...') && name.endsWith(']]')) {
+    return '*' + name.slice(5, -2) + '?';
+  }
+
+  if (name.startsWith('[...') && name.endsWith(']')) {
+    return '*' + name.slice(4, -1);
+  }
+
+  if (name.startsWith('[') && name.endsWith(']')) {
+    return ':' + name.slice(1, -1);
+  }
+
+  return name;
+}
+
+/**
+ * Parses a route path segment (`about`, `:id`, `:id=int`, `*slug`, `*slug?`)
+ */
+export function parseRouteSegment(segment: string): RouteSegment {
+  if (segment.startsWith('*')) {
+    if (segment.endsWith('?')) {
+      return { type: 'optional-catch-all', name: segment.slice(1, -1) || 'splat' };
+    }
+    return { type: 'catch-all', name: segment.slice(1) || 'splat' };
+  }
+
+  if (segment.startsWith(':')) {
+    const [name, matcher] = segment.slice(1).split('=');
+    return matcher ? { type: 'dynamic', name, matcher } : { type: 'dynamic', name };
+  }
+
+  return { type: 'static', name: segment };
+}
+
+export default {
+  toRouteSegment,
+  parseRouteSegment
+};
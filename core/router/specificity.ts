@@ -0,0 +1,103 @@
+/**
+ * FlexiReact Route Specificity
+ * Orders routes so the most specific one matches first, whatever the
+ * filesystem or registration order. No Node imports, so the edge handler
+ * can share it.
+ */
+
+import { toRouteSegment, parseRouteSegment } from './segments.js';
+
+/**
+ * Segment ranks, lower is more specific
+ */
+export const SegmentRank = {
+  STATIC: 0,
+  MATCHER: 1,
+  DYNAMIC: 2,
+  CATCH_ALL: 3,
+  OPTIONAL_CATCH_ALL: 4
+};
+
+/**
+ * Ranks a single path segment.
+ * Understands both route paths (`:id`, `*slug`) and file patterns (`[id]`, `[...slug]`).
+ */
+export function getSegmentRank(segment: string): number {
+  const parsed = parseRouteSegment(toRouteSegment(segment));
+
+  switch (parsed.type) {
+    case 'optional-catch-all':
+      return SegmentRank.OPTIONAL_CATCH_ALL;
+    case 'catch-all':
+      return SegmentRank.CATCH_ALL;
+    case 'dynamic':
+      return parsed.matcher ? SegmentRank.MATCHER : SegmentRank.DYNAMIC;
+    default:
+      return SegmentRank.STATIC;
+  }
+}
+
+/**
+ * Compares two route paths by specificity.
+ * Segment by segment, static beats dynamic and dynamic beats catch-all,
+ * with constrained params (`[id=int]`) tried before plain ones.
+ * Then more segments beat fewer, and ties fall back to the path itself.
+ *
+ * A trailing optional catch-all can match nothing, so it counts as no segment,
+ * and ranks below the same path without it: `/docs` before `/docs/*slug?`.
+ */
+export function compareRoutePaths(a: string, b: string): number {
+  const [segmentsA, optionalA] = splitOptionalCatchAll(a);
+  const [segmentsB, optionalB] = splitOptionalCatchAll(b);
+  const length = Math.min(segmentsA.length, segmentsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const rankDiff = getSegmentRank(segmentsA[i]) - getSegmentRank(segmentsB[i]);
+    if (rankDiff !== 0) return rankDiff;
+  }
+
+  if (segmentsA.length !== segmentsB.length) {
+    return segmentsB.length - segmentsA.length;
+  }
+
+  if (optionalA !== optionalB) {
+    return optionalA ? 1 : -1;
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Splits a route path into its segments, leaving out a trailing optional catch-all
+ */
+function splitOptionalCatchAll(routePath: string): [string[], boolean] {
+  const segments = routePath.split('/').filter(Boolean);
+  const last = segments[segments.length - 1];
+
+  if (last && getSegmentRank(last) === SegmentRank.OPTIONAL_CATCH_ALL) {
+    return [segments.slice(0, -1), true];
+  }
+
+  return [segments, false];
+}
+
+/**
+ * Sorts routes by specificity (returns a new array)
+ */
+export function sortRoutes<T extends { path: string; filePath?: string }>(routes: T[]): T[] {
+  return [...routes].sort((a, b) => {
+    const byPath = compareRoutePaths(a.path, b.path);
+    if (byPath !== 0) return byPath;
+
+    const fileA = a.filePath || '';
+    const fileB = b.filePath || '';
+    return fileA < fileB ? -1 : fileA > fileB ? 1 : 0;
+  });
+}
+
+export default {
+  SegmentRank,
+  getSegmentRank,
+  compareRoutePaths,
+  sortRoutes
+};
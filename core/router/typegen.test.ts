@@ -0,0 +1,77 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { generateRouteTypes } from './typegen.js';
+
+const coreDir = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+
+const routes = {
+  flexiRoutes: [],
+  appRoutes: [{ path: '/' }, { path: '/blog/:slug' }, { path: '/docs/*slug?' }],
+  pages: []
+};
+
+describe('generateRouteTypes', () => {
+  test('lists hrefs and params of every route', () => {
+    const types = generateRouteTypes(routes);
+
+    assert.match(types, /declare module '@flexireact\/core'/);
+    assert.match(types, /\| `\/blog\/\$\{string\}`/);
+    assert.match(types, /\| `\/docs`/);
+    assert.match(types, /"\/blog\/:slug": \{ "slug": string \};/);
+    assert.match(types, /"\/docs\/\*slug\?": \{ "slug": string\[\] \};/);
+  });
+});
+
+describe('generated route types', () => {
+  let root: string;
+  let errors: string[];
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'flexi-typegen-'));
+    fs.writeFileSync(path.join(root, 'routes.d.ts'), generateRouteTypes(routes));
+    fs.writeFileSync(path.join(root, 'usage.ts'), [
+      "import { redirect, useParams, type Href } from '@flexireact/core';",
+      "export const home: Href = '/';",
+      "export const post: Href = '/blog/hello?draft=1';",
+      "export const docs: Href = '/docs';",
+      "export const external: Href = 'https://example.com';",
+      "export const slug: string = useParams<'/blog/:slug'>().slug;",
+      "export const missing: Href = '/nope';",
+      "export const go = () => redirect('/blgo/hello');",
+      ''
+    ].join('\n'));
+
+    // Resolves the package to the sources, as an app resolves it to its types
+    const program = ts.createProgram([path.join(root, 'routes.d.ts'), path.join(root, 'usage.ts')], {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.NodeNext,
+      moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true,
+      paths: { '@flexireact/core': [path.join(coreDir, 'index.ts')] }
+    });
+
+    errors = ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+      const file = diagnostic.file ? path.relative(root, diagnostic.file.fileName) : '';
+      const line = diagnostic.file ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start!).line + 1 : 0;
+      return `${file}:${line} ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+    });
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('rejects hrefs that match no route', () => {
+    assert.equal(errors.length, 2, errors.join('\n'));
+    assert.match(errors[0], /^usage\.ts:7 Type '"\/nope"' is not assignable to type/);
+    assert.match(errors[1], /^usage\.ts:8 Argument of type '"\/blgo\/hello"' is not assignable/);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * FlexiReact Route Types
+ * Generates `.flexi/types/routes.d.ts` from the route tree, so Link hrefs,
+ * router.push(), redirect() and useParams() only accept routes that exist.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseRouteSegment } from './segments.js';
+
+/**
+ * Location of the generated declarations, relative to the output directory
+ */
+export const ROUTE_TYPES_FILE = path.join('types', 'routes.d.ts');
+
+/**
+ * Escapes text for use inside a template literal type
+ */
+function escapeTemplate(text: string): string {
+  return text.replace(/[\\`]/g, '\\$&').replace(/\$\{/g, '\\${');
+}
+
+/**
+ * Lists the href types matching a route path.
+ * `/blog/:slug` becomes `/blog/${string}`, and an optional catch-all
+ * also yields its parent path.
+ */
+function getHrefTypes(routePath: string): string[] {
+  let hrefs = [''];
+
+  for (const segment of routePath.split('/').filter(Boolean)) {
+    const parsed = parseRouteSegment(segment);
+
+    if (parsed.type === 'static') {
+      hrefs = hrefs.map((href) => `${href}/${escapeTemplate(segment)}`);
+    } else if (parsed.type === 'optional-catch-all') {
+      hrefs = hrefs.flatMap((href) => [href, `${href}/\${string}`]);
+    } else {
+      hrefs = hrefs.map((href) => `${href}/\${string}`);
+    }
+  }
+
+  return hrefs.map((href) => `\`${href || '/'}\``);
+}
+
+/**
+ * Builds the params type of a route path, e.g. `{ slug: string }`
+ */
+function getParamsType(routePath: string): string {
+  const fields = routePath
+    .split('/')
+    .filter(Boolean)
+    .map(parseRouteSegment)
+    .filter((segment) => segment.type !== 'static')
+    .map((segment) => {
+      const type = segment.type === 'dynamic' ? 'string' : 'string[]';
+      return `${JSON.stringify(segment.name)}: ${type}`;
+    });
+
+  return fields.length > 0 ? `{ ${fields.join('; ')} }` : '{}';
+}
+
+/**
+ * Generates the route declarations for a route tree
+ */
+export function generateRouteTypes(routes): string {
+  const pages = [...routes.flexiRoutes, ...routes.appRoutes, ...routes.pages];
+  const paths = Array.from(new Set<string>(pages.map((route) => route.path))).sort();
+
+  const hrefs = Array.from(new Set(paths.flatMap(getHrefTypes)));
+  const hrefType = hrefs.length > 0
+    ? hrefs.map((href) => `\n      | ${href}`).join('')
+    : ' never';
+
+  const params = paths
+    .map((routePath) => `\n      ${JSON.stringify(routePath)}: ${getParamsType(routePath)};`)
+    .join('');
+
+  return `// Generated by FlexiReact from your routes. Do not edit.
+import '@flexireact/core';
+
+declare module '@flexireact/core' {
+  interface RouteRegistry {
+    href:${hrefType};
+    params: {${params}
+    };
+  }
+}
+`;
+}
+
+/**
+ * Writes the route declarations to `<outDir>/types/routes.d.ts`.
+ * The file is only touched when its content changes, so editors and
+ * watchers don't reload for nothing. Returns true when it was written.
+ */
+export function writeRouteTypes(routes, outDir: string): boolean {
+  const filePath = path.join(outDir, ROUTE_TYPES_FILE);
+  const content = generateRouteTypes(routes);
+
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === content) {
+    return false;
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return true;
+}
+
+export default {
+  generateRouteTypes,
+  writeRouteTypes,
+  ROUTE_TYPES_FILE
+};
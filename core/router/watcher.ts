@@ -0,0 +1,184 @@
+/**
+ * FlexiReact Route Index
+ * Keeps the dev route tree in sync with the file system. Instead of rescanning
+ * routes/, app/ and pages/ on every request, it watches them and updates only
+ * the routes of the files that were added, removed or renamed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { buildRouteTree, updateRouteTree, serializeRouteTree } from './index.js';
+
+export interface RouteIndexOptions {
+  pagesDir: string;
+  layoutsDir: string;
+}
+
+export type RouteIndexListener = (routes: any) => void;
+
+/** How long to wait for more events before applying them, editors save in bursts */
+const DEBOUNCE_MS = 50;
+
+/**
+ * Creates a route index for the dev server.
+ * Falls back to a full rescan on every `getRoutes()` call when the platform
+ * can't watch directories recursively.
+ */
+export function createRouteIndex({ pagesDir, layoutsDir }: RouteIndexOptions) {
+  const projectRoot = path.dirname(pagesDir);
+  const roots = [path.join(projectRoot, 'routes'), path.join(projectRoot, 'app'), pagesDir, layoutsDir];
+
+  const watchers = new Map<string, fs.FSWatcher>();
+  const listeners = new Set<RouteIndexListener>();
+
+  let routes = buildRouteTree(pagesDir, layoutsDir);
+  let signature = getRouteSignature(routes, projectRoot);
+  let pending: Array<{ event: string; filePath: string }> = [];
+  let rescan = false;
+  let watching = true;
+  let timer: NodeJS.Timeout | null = null;
+
+  const schedule = () => {
+    if (timer) return;
+    timer = setTimeout(flush, DEBOUNCE_MS);
+    timer.unref();
+  };
+
+  // Applies pending changes, then notifies listeners if the routes changed
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    if (!rescan && pending.length === 0) return;
+
+    const changes = pending;
+    pending = [];
+
+    // layouts/ is a flat map of names, rebuilding it is as cheap as patching it
+    const layoutsChanged = changes.some((change) => isInside(layoutsDir, change.filePath));
+
+    if (rescan || layoutsChanged || !updateRouteTree(routes, changes, projectRoot)) {
+      routes = buildRouteTree(pagesDir, layoutsDir);
+    }
+    rescan = false;
+
+    const nextSignature = getRouteSignature(routes, projectRoot);
+    if (nextSignature !== signature) {
+      signature = nextSignature;
+      listeners.forEach((listener) => listener(routes));
+    }
+  };
+
+  const watchRoot = (root: string) => {
+    if (watchers.has(root) || !fs.existsSync(root)) return;
+
+    try {
+      const watcher = fs.watch(root, { recursive: true, persistent: false }, (event, filename) => {
+        if (filename) {
+          pending.push({ event, filePath: path.join(root, filename.toString()) });
+        } else {
+          rescan = true;
+        }
+        schedule();
+      });
+
+      // The directory was removed or became unreadable
+      watcher.on('error', () => {
+        watcher.close();
+        watchers.delete(root);
+        rescan = true;
+        schedule();
+      });
+
+      watchers.set(root, watcher);
+    } catch {
+      // The platform refused a recursive watch
+      watching = false;
+    }
+  };
+
+  // Routing directories can be created or deleted while the server runs
+  const watchProjectRoot = () => {
+    const names = roots
+      .filter((root) => path.dirname(root) === projectRoot)
+      .map((root) => path.basename(root));
+
+    try {
+      const watcher = fs.watch(projectRoot, { persistent: false }, (event, filename) => {
+        if (!filename || !names.includes(filename.toString())) return;
+
+        const root = path.join(projectRoot, filename.toString());
+        if (!fs.existsSync(root)) {
+          watchers.get(root)?.close();
+          watchers.delete(root);
+        }
+
+        watchRoot(root);
+        rescan = true;
+        schedule();
+      });
+
+      watcher.on('error', () => watcher.close());
+      watchers.set(projectRoot, watcher);
+    } catch {
+      watching = false;
+    }
+  };
+
+  roots.forEach(watchRoot);
+  watchProjectRoot();
+
+  return {
+    /**
+     * Gets the current route tree, applying any changes not picked up yet
+     */
+    getRoutes() {
+      if (!watching) rescan = true;
+      flush();
+      return routes;
+    },
+
+    /**
+     * Calls `listener` with the new route tree whenever routes are added,
+     * removed or changed. Returns a function that unsubscribes.
+     */
+    subscribe(listener: RouteIndexListener): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    /**
+     * Stops watching
+     */
+    close() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+      listeners.clear();
+    }
+  };
+}
+
+export type RouteIndex = ReturnType<typeof createRouteIndex>;
+
+/**
+ * Checks whether a path is inside a directory
+ */
+function isInside(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Summarizes a route tree, so listeners only hear about changes that matter
+ */
+function getRouteSignature(routes, projectRoot: string): string {
+  return JSON.stringify(serializeRouteTree(routes, projectRoot));
+}
+
+export default {
+  createRouteIndex
+};
@@ -0,0 +1,287 @@
+/**
+ * FlexiReact Serialization
+ * Sends data from the server to the browser: page props, island props and action
+ * results. Dates, Maps, Sets, BigInts, RegExps, URLs, undefined and special numbers
+ * survive the trip, and the output is safe to embed in a `<script>`.
+ *
+ * Values are encoded once, then written either as JSON (`serialize`, read back with
+ * `deserialize`) or as a JavaScript expression for inline scripts (`serializeToScript`),
+ * which needs no code in the browser to rebuild them.
+ */
+
+/** Marks an encoded value that JSON can't represent */
+const TAG = '$flexi';
+
+/** Payloads above this size are flagged in dev */
+export const LARGE_PAYLOAD_SIZE = 128 * 1024;
+
+export interface SerializeOptions {
+  /** What is being serialized, for warnings (`Page props`, `Island props`) */
+  label?: string;
+  /** Size in bytes above which a dev warning is logged */
+  warnSize?: number;
+}
+
+type Encoded = null | boolean | number | string | Encoded[] | { [key: string]: Encoded };
+
+const isDev = () => typeof process !== 'undefined' && process.env?.NODE_ENV !== 'production';
+
+// Characters that could close the script tag or start an HTML comment, and the
+// line terminators that end a string literal in older engines
+const UNSAFE_CHARS = /[<>&\u2028\u2029]/g;
+
+const ESCAPED_CHARS: Record<string, string> = {
+  '<': '\\u003C',
+  '>': '\\u003E',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029'
+};
+
+/**
+ * Escapes JSON so it can be placed inside a `<script>`, as code or as a data block.
+ * The result is still valid JSON.
+ */
+export function escapeScriptContent(json: string): string {
+  return json.replace(UNSAFE_CHARS, (char) => ESCAPED_CHARS[char]);
+}
+
+/**
+ * Formats a property path for warnings: `user.tags[2]`
+ */
+function formatPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) return `${path}[${JSON.stringify(key)}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Defines a property, so a `__proto__` key stays a plain property
+ */
+function setProperty(object: Record<string, any>, key: string, value: any) {
+  Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * Encodes a value into plain JSON data, tagging what JSON can't represent
+ */
+function encode(value: any, path: string, seen: Set<object>, label: string): Encoded | undefined {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return value;
+
+    case 'number':
+      if (Number.isNaN(value)) return { [TAG]: 'Number', value: 'NaN' };
+      if (value === Infinity) return { [TAG]: 'Number', value: 'Infinity' };
+      if (value === -Infinity) return { [TAG]: 'Number', value: '-Infinity' };
+      if (Object.is(value, -0)) return { [TAG]: 'Number', value: '-0' };
+      return value;
+
+    case 'bigint':
+      return { [TAG]: 'BigInt', value: value.toString() };
+
+    case 'undefined':
+      return { [TAG]: 'undefined' };
+
+    case 'function':
+    case 'symbol':
+      if (isDev()) {
+        console.warn(`[FlexiReact] ${label}: ${path || 'the value'} is a ${typeof value} and can't be sent to the browser, it was left out.`);
+      }
+      return undefined;
+  }
+
+  if (value === null) return null;
+
+  if (seen.has(value)) {
+    throw new TypeError(`[FlexiReact] ${label}: ${path || 'the value'} is a circular reference and can't be serialized.`);
+  }
+
+  seen.add(value);
+
+  try {
+    if (value instanceof Date) {
+      return { [TAG]: 'Date', value: Number.isNaN(value.getTime()) ? null : value.toISOString() };
+    }
+
+    if (value instanceof RegExp) {
+      return { [TAG]: 'RegExp', value: [value.source, value.flags] };
+    }
+
+    if (typeof URL !== 'undefined' && value instanceof URL) {
+      return { [TAG]: 'URL', value: value.href };
+    }
+
+    if (value instanceof Map) {
+      return {
+        [TAG]: 'Map',
+        value: Array.from(value, ([key, entry], index) => [
+          encodeEntry(key, `${path || 'map'}.keys()[${index}]`, seen, label),
+          encodeEntry(entry, formatPath(path, String(key)), seen, label)
+        ])
+      };
+    }
+
+    if (value instanceof Set) {
+      return {
+        [TAG]: 'Set',
+        value: Array.from(value, (entry, index) => encodeEntry(entry, `${path || 'set'}.values()[${index}]`, seen, label))
+      };
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((entry, index) => encodeEntry(entry, formatPath(path, index), seen, label));
+    }
+
+    // Anything with its own JSON form (Decimal, Temporal, ...)
+    if (typeof value.toJSON === 'function') {
+      return encode(value.toJSON(), path, seen, label);
+    }
+
+    const object: Record<string, Encoded> = {};
+    for (const key of Object.keys(value)) {
+      const encoded = encode(value[key], formatPath(path, key), seen, label);
+      if (encoded !== undefined) setProperty(object, key, encoded);
+    }
+
+    // Objects that happen to use the tag key are wrapped, so they aren't read as tags
+    return TAG in object ? { [TAG]: 'Object', value: object } : object;
+  } finally {
+    seen.delete(value);
+  }
+}
+
+/**
+ * Encodes an array, Map or Set entry, where a value that was left out becomes undefined
+ */
+function encodeEntry(value: any, path: string, seen: Set<object>, label: string): Encoded {
+  const encoded = encode(value, path, seen, label);
+  return encoded === undefined ? { [TAG]: 'undefined' } : encoded;
+}
+
+/**
+ * Logs a dev warning for payloads large enough to slow down the page
+ */
+function checkSize(output: string, label: string, warnSize: number) {
+  if (isDev() && output.length > warnSize) {
+    console.warn(`[FlexiReact] ${label}: ${Math.round(output.length / 1024)} KB when serialized. Large payloads delay hydration, consider sending less data.`);
+  }
+}
+
+/**
+ * Serializes a value to JSON that `deserialize` turns back into the same value.
+ * Safe to embed in HTML.
+ */
+export function serialize(value: any, options: SerializeOptions = {}): string {
+  const label = options.label || 'Serialized data';
+  const encoded = encodeEntry(value, '', new Set(), label);
+  const output = escapeScriptContent(JSON.stringify(encoded));
+
+  checkSize(output, label, options.warnSize ?? LARGE_PAYLOAD_SIZE);
+  return output;
+}
+
+/**
+ * Writes encoded data as a JavaScript expression
+ */
+function toScript(value: Encoded): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(toScript).join(',')}]`;
+  }
+
+  const tag = value[TAG];
+  const data: any = value.value;
+
+  switch (tag) {
+    case 'undefined': return 'void 0';
+    case 'Number': return data === '-0' ? '-0' : data;
+    case 'BigInt': return `${data}n`;
+    case 'Date': return `new Date(${data === null ? 'NaN' : JSON.stringify(data)})`;
+    case 'RegExp': return `new RegExp(${JSON.stringify(data[0])},${JSON.stringify(data[1])})`;
+    case 'URL': return `new URL(${JSON.stringify(data)})`;
+    case 'Map': return `new Map(${toScript(data)})`;
+    case 'Set': return `new Set(${toScript(data)})`;
+    case 'Object': return toPlainObjectScript(data);
+  }
+
+  return toPlainObjectScript(value);
+}
+
+function toPlainObjectScript(object: { [key: string]: Encoded }): string {
+  // __proto__ as a computed key is a plain property, not the prototype
+  const entries = Object.keys(object).map((key) => {
+    const name = key === '__proto__' ? `[${JSON.stringify(key)}]` : JSON.stringify(key);
+    return `${name}:${toScript(object[key])}`;
+  });
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Serializes a value to a JavaScript expression that evaluates to the same
+ * value, for inline scripts (`window.__FLEXI_DATA__ = ...`).
+ * Safe to embed in a `<script>`.
+ */
+export function serializeToScript(value: any, options: SerializeOptions = {}): string {
+  const label = options.label || 'Serialized data';
+  const encoded = encodeEntry(value, '', new Set(), label);
+  const output = escapeScriptContent(toScript(encoded));
+
+  checkSize(output, label, options.warnSize ?? LARGE_PAYLOAD_SIZE);
+  return output;
+}
+
+/**
+ * Rebuilds a value from data encoded by `serialize`
+ */
+function decode(value: any): any {
+  if (value === null || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) return value.map(decode);
+
+  const data = value.value;
+
+  switch (value[TAG]) {
+    case 'undefined': return undefined;
+    case 'Number': return Number(data);
+    case 'BigInt': return BigInt(data);
+    case 'Date': return new Date(data === null ? NaN : data);
+    case 'RegExp': return new RegExp(data[0], data[1]);
+    case 'URL': return new URL(data);
+    case 'Map': return new Map(data.map(([key, entry]) => [decode(key), decode(entry)]));
+    case 'Set': return new Set(data.map(decode));
+    case 'Object': return decodeObject(data);
+  }
+
+  return decodeObject(value);
+}
+
+function decodeObject(object: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const key of Object.keys(object)) {
+    setProperty(result, key, decode(object[key]));
+  }
+
+  return result;
+}
+
+/**
+ * Parses JSON from `serialize` back into the original value
+ */
+export function deserialize<T = any>(json: string): T {
+  return decode(JSON.parse(json));
+}
+
+export default {
+  serialize,
+  serializeToScript,
+  deserialize,
+  escapeScriptContent,
+  LARGE_PAYLOAD_SIZE
+};
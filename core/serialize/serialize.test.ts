@@ -0,0 +1,117 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { serialize, serializeToScript, deserialize, escapeScriptContent } from './index.js';
+
+/** Evaluates the output of serializeToScript, as the inline script would */
+const evaluate = (script: string) => new Function(`return (${script});`)();
+
+const roundTrips = (value: any) => [deserialize(serialize(value)), evaluate(serializeToScript(value))];
+
+const sample = {
+  text: 'hello',
+  count: 3,
+  flags: [true, false, null],
+  createdAt: new Date('2026-01-02T03:04:05.678Z'),
+  pattern: /a+b/gi,
+  link: new URL('https://example.com/a?b=1'),
+  big: 12345678901234567890n,
+  missing: undefined,
+  special: [NaN, Infinity, -Infinity, -0],
+  lookup: new Map<any, any>([['a', 1], [2, new Set(['x', undefined])]]),
+  nested: { deeper: { list: [undefined, new Date(0)] } }
+};
+
+describe('serialize and serializeToScript', () => {
+  test('keep the values JSON loses', () => {
+    for (const result of roundTrips(sample)) {
+      assert.deepEqual(result, sample);
+      assert.ok(Object.is(result.special[3], -0));
+      assert.ok('missing' in result);
+    }
+  });
+
+  test('keep top-level values', () => {
+    for (const value of [undefined, null, 'text', 42, NaN, 1n, new Date(1000)]) {
+      for (const result of roundTrips(value)) {
+        assert.deepEqual(result, value);
+      }
+    }
+  });
+
+  test('keep invalid dates', () => {
+    for (const result of roundTrips(new Date(NaN))) {
+      assert.ok(result instanceof Date);
+      assert.ok(Number.isNaN(result.getTime()));
+    }
+  });
+
+  test('keep objects that use the tag key', () => {
+    const value = { $flexi: 'Date', value: 'not a date', nested: { $flexi: 'undefined' } };
+    for (const result of roundTrips(value)) {
+      assert.deepEqual(result, value);
+    }
+  });
+
+  test('keep __proto__ as a plain property', () => {
+    const value = JSON.parse('{"__proto__": {"polluted": true}, "a": 1}');
+
+    for (const result of roundTrips(value)) {
+      assert.equal(Object.getPrototypeOf(result), Object.prototype);
+      assert.deepEqual(Object.keys(result), ['__proto__', 'a']);
+      assert.equal(({} as any).polluted, undefined);
+    }
+  });
+
+  test('use toJSON when a value has one', () => {
+    const value = { amount: { toJSON: () => '12.50' } };
+    assert.deepEqual(deserialize(serialize(value)), { amount: '12.50' });
+  });
+
+  test('leave out functions and symbols, with a warning', (t) => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    const value = { keep: 1, onClick: () => {}, id: Symbol('id'), list: [() => {}] };
+
+    for (const result of roundTrips(value)) {
+      assert.deepEqual(result, { keep: 1, list: [undefined] });
+    }
+    assert.match(warn.mock.calls[0].arguments[0], /onClick is a function/);
+  });
+
+  test('reject circular references', () => {
+    const value: any = { name: 'loop' };
+    value.self = value;
+
+    assert.throws(() => serialize(value, { label: 'Page props' }), /Page props: self is a circular reference/);
+    assert.throws(() => serializeToScript([value]), /circular reference/);
+  });
+
+  test('allow the same object in two places', () => {
+    const shared = { id: 1 };
+    assert.deepEqual(deserialize(serialize({ a: shared, b: shared })), { a: shared, b: shared });
+  });
+
+  test('warn about large payloads', (t) => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    serialize('x'.repeat(200), { label: 'Island props', warnSize: 100 });
+    assert.match(warn.mock.calls[0].arguments[0], /Island props: 0 KB when serialized/);
+  });
+});
+
+describe('escapeScriptContent', () => {
+  test('keeps the output from closing the script', () => {
+    const value = { html: '</script><script>alert(1)</script>', comment: '<!-- x -->', amp: 'a & b' };
+
+    for (const output of [serialize(value), serializeToScript(value)]) {
+      assert.doesNotMatch(output, /[<>&]/);
+    }
+    for (const result of roundTrips(value)) {
+      assert.deepEqual(result, value);
+    }
+  });
+
+  test('escapes line terminators, keeping valid JSON', () => {
+    const escaped = escapeScriptContent(JSON.stringify('a\u2028b\u2029c'));
+    assert.equal(escaped, '"a\\u2028b\\u2029c"');
+    assert.equal(JSON.parse(escaped), 'a\u2028b\u2029c');
+  });
+});
@@ -0,0 +1,91 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequestStore, runWithRequestStore } from '../request-store.js';
+import { ensureActionToken, verifyActionRequest, verifyFormActionRequest, ACTION_TOKEN_FIELD } from './action-security.js';
+
+const TOKEN = 'secret-token';
+
+/**
+ * Runs `fn` for a request with the given headers, inside its request store
+ */
+function withRequest<T>(headers: Record<string, string>, fn: (req) => T): { result: T; setCookies: string[] } {
+  const store = createRequestStore(new Request('http://example.com/_flexi/action', { headers }));
+  const req = { headers: { host: 'example.com', ...headers }, socket: {} };
+
+  return { result: runWithRequestStore(store, () => fn(req)), setCookies: store.responseCookies };
+}
+
+const json = { 'content-type': 'application/json', cookie: `__flexi_action=${TOKEN}` };
+
+describe('ensureActionToken', () => {
+  test('sets a token cookie the client can read', () => {
+    const { setCookies } = withRequest({}, (req) => ensureActionToken(req));
+
+    assert.equal(setCookies.length, 1);
+    assert.match(setCookies[0], /^__flexi_action=[\w-]{32};/);
+    assert.doesNotMatch(setCookies[0], /HttpOnly/i);
+    assert.match(setCookies[0], /SameSite=Lax/i);
+  });
+
+  test('keeps the token the browser has', () => {
+    const { setCookies } = withRequest({ cookie: `__flexi_action=${TOKEN}` }, (req) => ensureActionToken(req));
+    assert.deepEqual(setCookies, []);
+  });
+});
+
+describe('verifyActionRequest', () => {
+  test('accepts a same-origin request with the token', () => {
+    const headers = { ...json, origin: 'http://example.com', 'x-flexi-action-token': TOKEN };
+    assert.equal(withRequest(headers, (req) => verifyActionRequest(req, {})).result, null);
+  });
+
+  test('accepts the token in a multipart field', () => {
+    const body = new FormData();
+    body.append(ACTION_TOKEN_FIELD, TOKEN);
+    const headers = { 'content-type': 'multipart/form-data; boundary=x', cookie: `__flexi_action=${TOKEN}` };
+
+    assert.equal(withRequest(headers, (req) => verifyActionRequest(req, body)).result, null);
+  });
+
+  test('rejects a missing or wrong token', () => {
+    assert.equal(withRequest(json, (req) => verifyActionRequest(req, {})).result?.status, 403);
+    assert.equal(withRequest({ ...json, 'x-flexi-action-token': 'other' }, (req) => verifyActionRequest(req, {})).result?.status, 403);
+    assert.equal(withRequest({ 'content-type': 'application/json', 'x-flexi-action-token': TOKEN }, (req) => verifyActionRequest(req, {})).result?.status, 403);
+  });
+
+  test('rejects bodies a cross-site form can send', () => {
+    for (const contentType of ['application/x-www-form-urlencoded', 'text/plain']) {
+      const headers = { ...json, 'content-type': contentType, 'x-flexi-action-token': TOKEN };
+      assert.equal(withRequest(headers, (req) => verifyActionRequest(req, 'a=1')).result?.status, 415);
+    }
+  });
+
+  test('rejects other origins, unless allowed', () => {
+    const headers = { ...json, origin: 'https://evil.example', 'x-flexi-action-token': TOKEN };
+    assert.equal(withRequest(headers, (req) => verifyActionRequest(req, {})).result?.status, 403);
+    assert.equal(withRequest({ ...headers, origin: 'null' }, (req) => verifyActionRequest(req, {})).result?.status, 403);
+
+    const allowed = { ...headers, origin: 'https://admin.example.com' };
+    assert.equal(withRequest(allowed, (req) => verifyActionRequest(req, {}, { allowedOrigins: ['*.example.com'] })).result, null);
+    assert.equal(withRequest(allowed, (req) => verifyActionRequest(req, {}, { allowedOrigins: ['https://admin.example.com'] })).result, null);
+    assert.equal(withRequest(allowed, (req) => verifyActionRequest(req, {}, { allowedOrigins: ['http://admin.example.com'] })).result?.status, 403);
+  });
+
+  test('checks the Referer when there is no Origin', () => {
+    const headers = { ...json, referer: 'https://evil.example/page', 'x-flexi-action-token': TOKEN };
+    assert.equal(withRequest(headers, (req) => verifyActionRequest(req, {})).result?.status, 403);
+  });
+
+  test('skips every check with csrf: false', () => {
+    assert.equal(withRequest({}, (req) => verifyActionRequest(req, 'a=1', { csrf: false })).result, null);
+  });
+});
+
+describe('verifyFormActionRequest', () => {
+  test('needs a same-origin Origin or Referer', () => {
+    assert.equal(withRequest({ origin: 'http://example.com' }, (req) => verifyFormActionRequest(req)).result, null);
+    assert.equal(withRequest({ referer: 'http://example.com/form' }, (req) => verifyFormActionRequest(req)).result, null);
+    assert.equal(withRequest({}, (req) => verifyFormActionRequest(req)).result?.status, 403);
+    assert.equal(withRequest({ origin: 'https://evil.example' }, (req) => verifyFormActionRequest(req)).result?.status, 403);
+  });
+});
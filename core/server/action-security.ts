@@ -0,0 +1,162 @@
+/**
+ * FlexiReact Action Security
+ * Cross-site request forgery protection for `/_flexi/action`: a same-origin check,
+ * a double-submit token (cookie + header) and JSON-only request bodies.
+ * Forms posted to pages without JavaScript can't send the token, and must come
+ * from the same origin.
+ */
+
+import crypto from 'crypto';
+import { cookies } from '../helpers.js';
+
+/** Cookie with the token, readable by `callServerAction` */
+export const ACTION_TOKEN_COOKIE = '__flexi_action';
+
+/** Header `callServerAction` sends the token back in */
+export const ACTION_TOKEN_HEADER = 'x-flexi-action-token';
+
+/** Form field with the token, for multipart requests */
+export const ACTION_TOKEN_FIELD = 'actionToken';
+
+export interface ActionSecurityOptions {
+  /** Turns every check off. Prefer `{ csrf: false }` on the actions that need it. */
+  csrf?: boolean;
+  /**
+   * Other origins allowed to call actions (`https://admin.example.com`).
+   * A host without a scheme matches any scheme, `*.example.com` any subdomain.
+   */
+  allowedOrigins?: string[];
+}
+
+/**
+ * Why a request was rejected, and the status it's answered with
+ */
+export interface ActionRejection {
+  status: 403 | 415;
+  error: string;
+}
+
+/**
+ * Sets the token cookie when the browser doesn't have one yet.
+ * Runs inside the request store, so the page sees it through cookies() too.
+ */
+export function ensureActionToken(req) {
+  if (cookies().has(ACTION_TOKEN_COOKIE)) return;
+
+  cookies().set(ACTION_TOKEN_COOKIE, crypto.randomBytes(24).toString('base64url'), {
+    // The client reads it to send it back in a header
+    httpOnly: false,
+    sameSite: 'lax',
+    secure: (req.socket as any)?.encrypted || req.headers['x-forwarded-proto'] === 'https'
+  });
+}
+
+/**
+ * Checks an origin (`https://example.com:8080`) against an allowed origin or host pattern
+ */
+function matchesOrigin(origin: URL, pattern: string): boolean {
+  if (pattern.includes('://')) {
+    try {
+      return new URL(pattern).origin === origin.origin;
+    } catch {
+      return false;
+    }
+  }
+
+  if (pattern.startsWith('*.')) {
+    return origin.host.endsWith(pattern.slice(1));
+  }
+
+  return origin.host === pattern;
+}
+
+/**
+ * Gets the origin of a request from Origin, or from Referer for browsers
+ * that leave Origin out. Returns null when neither is sent.
+ */
+function getRequestOrigin(req): URL | 'invalid' | null {
+  const value = req.headers.origin || req.headers.referer;
+  if (!value) return null;
+
+  try {
+    return new URL(value);
+  } catch {
+    // Includes `Origin: null`, sent from sandboxed frames and some redirects
+    return 'invalid';
+  }
+}
+
+/**
+ * Checks a request origin against the request host and the allowed origins
+ */
+function isAllowedOrigin(req, origin: URL | 'invalid', options: ActionSecurityOptions): boolean {
+  if (origin === 'invalid') return false;
+
+  const host = req.headers['x-forwarded-host'] || req.headers.host;
+  return origin.host === host || (options.allowedOrigins || []).some((pattern) => matchesOrigin(origin, pattern));
+}
+
+/**
+ * Compares two tokens in constant time
+ */
+function tokensMatch(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Checks an action request: JSON or multipart body, same origin (or an
+ * allowed one), and a token that matches the cookie. Returns null when
+ * the request may run the action.
+ */
+export function verifyActionRequest(req, body, options: ActionSecurityOptions = {}): ActionRejection | null {
+  if (options.csrf === false) return null;
+
+  // Cross-site forms can only send urlencoded, multipart or text/plain bodies,
+  // and multipart ones still need the token
+  const contentType = String(req.headers['content-type'] || '');
+  const isMultipart = body instanceof FormData;
+
+  if (!/^application\/json\b/i.test(contentType) && !isMultipart) {
+    return { status: 415, error: 'Server actions only accept application/json or multipart/form-data' };
+  }
+
+  const origin = getRequestOrigin(req);
+  if (origin && !isAllowedOrigin(req, origin, options)) {
+    return { status: 403, error: 'Cross-origin server action request' };
+  }
+
+  const token = req.headers[ACTION_TOKEN_HEADER] || (isMultipart ? body.get(ACTION_TOKEN_FIELD) : undefined);
+  if (!tokensMatch(cookies().get(ACTION_TOKEN_COOKIE), typeof token === 'string' ? token : undefined)) {
+    return { status: 403, error: 'Invalid or missing server action token' };
+  }
+
+  return null;
+}
+
+/**
+ * Checks a form posted to a page without JavaScript. With no token to compare,
+ * the request must say where it comes from: same origin, or an allowed one.
+ */
+export function verifyFormActionRequest(req, options: ActionSecurityOptions = {}): ActionRejection | null {
+  if (options.csrf === false) return null;
+
+  const origin = getRequestOrigin(req);
+  if (!origin || !isAllowedOrigin(req, origin, options)) {
+    return { status: 403, error: 'Cross-origin server action request' };
+  }
+
+  return null;
+}
+
+export default {
+  ensureActionToken,
+  verifyActionRequest,
+  verifyFormActionRequest,
+  ACTION_TOKEN_COOKIE,
+  ACTION_TOKEN_HEADER,
+  ACTION_TOKEN_FIELD
+};
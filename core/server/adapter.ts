@@ -0,0 +1,158 @@
+/**
+ * FlexiReact Node ⇄ Web adapter
+ * Bridges Node's IncomingMessage/ServerResponse and Web-standard Request/Response.
+ * Only type imports from Node, so the edge handler can share the helpers.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * HTTP methods a route module may export as Web-standard handlers
+ */
+export const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+/**
+ * Checks whether a value is a Web-standard Response
+ */
+export function isWebResponse(value: any): value is Response {
+  return value instanceof Response || (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof value.status === 'number' &&
+    value.headers instanceof Headers &&
+    'body' in value
+  );
+}
+
+/**
+ * Resolves the Web-standard handler exported by a route module for a method.
+ * HEAD falls back to GET, like every HTTP server does.
+ */
+export function resolveMethodHandler(module: Record<string, any>, method: string) {
+  const upper = method.toUpperCase();
+
+  if (typeof module[upper] === 'function') {
+    return module[upper];
+  }
+
+  if (upper === 'HEAD' && typeof module.GET === 'function') {
+    return module.GET;
+  }
+
+  return null;
+}
+
+/**
+ * Lists the methods a route module exports, for the Allow header
+ */
+export function getAllowedMethods(module: Record<string, any>): string[] {
+  const methods = HTTP_METHODS.filter(method => typeof module[method] === 'function');
+
+  if (methods.includes('GET') && !methods.includes('HEAD')) {
+    methods.push('HEAD');
+  }
+
+  return methods;
+}
+
+/**
+ * Creates a Web Request from a Node request.
+ * The body is streamed, so it must not have been consumed yet.
+ * Pass `body: false` for a request that only carries the URL and headers.
+ */
+export function toWebRequest(req: IncomingMessage, options: { body?: boolean } = {}): Request {
+  const host = req.headers.host || 'localhost';
+  const protocol = (req.socket as any)?.encrypted ? 'https' : 'http';
+  const url = new URL(req.url || '/', `${protocol}://${host}`);
+
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach(v => headers.append(key, v));
+    } else if (value !== undefined) {
+      headers.set(key, value);
+    }
+  }
+
+  const hasBody = options.body !== false && !['GET', 'HEAD'].includes(req.method || 'GET');
+
+  return new Request(url.href, {
+    method: req.method,
+    headers,
+    body: hasBody ? (req as any) : undefined,
+    // @ts-ignore - duplex is needed for streaming request bodies
+    duplex: 'half'
+  });
+}
+
+/**
+ * Writes a Web Response to a Node response, streaming the body
+ */
+export async function sendWebResponse(
+  res: ServerResponse,
+  response: Response,
+  options: { method?: string } = {}
+): Promise<void> {
+  const headers: Record<string, string | string[]> = {};
+
+  response.headers.forEach((value, key) => {
+    if (key !== 'set-cookie') {
+      headers[key] = value;
+    }
+  });
+
+  // Appended, so cookies set earlier with cookies().set() are kept
+  const setCookies = typeof response.headers.getSetCookie === 'function'
+    ? response.headers.getSetCookie()
+    : [];
+  for (const cookie of setCookies) {
+    res.appendHeader('Set-Cookie', cookie);
+  }
+
+  res.writeHead(response.status, response.statusText || undefined, headers);
+
+  if (!response.body || options.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+
+  // Stop pulling from the body if the client goes away
+  const onClose = () => {
+    reader.cancel().catch(() => {});
+  };
+  res.on('close', onClose);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Respect backpressure from the socket
+      if (!res.write(value) && !res.destroyed) {
+        await new Promise<void>(resolve => {
+          const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+          };
+          res.on('drain', done);
+          res.on('close', done);
+        });
+      }
+    }
+  } finally {
+    res.off('close', onClose);
+    res.end();
+  }
+}
+
+export default {
+  HTTP_METHODS,
+  isWebResponse,
+  resolveMethodHandler,
+  getAllowedMethods,
+  toWebRequest,
+  sendWebResponse
+};
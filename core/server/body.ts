@@ -0,0 +1,555 @@
+/**
+ * FlexiReact Request Bodies
+ * Reads request bodies within size limits. JSON and urlencoded forms are parsed,
+ * multipart/form-data is streamed into a Web FormData, with large uploads written
+ * to temporary files instead of memory.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { toWebRequest } from './adapter.js';
+
+export interface BodyLimits {
+  /** Largest JSON, urlencoded or text body, in bytes */
+  maxSize?: number;
+  /** Largest multipart/form-data body, files included */
+  maxUploadSize?: number;
+  /** Uploaded files larger than this are kept on disk until the response ends */
+  diskThreshold?: number;
+}
+
+export const DEFAULT_BODY_LIMITS: Required<BodyLimits> = {
+  maxSize: 1024 * 1024,
+  maxUploadSize: 50 * 1024 * 1024,
+  diskThreshold: 1024 * 1024
+};
+
+/** Largest header block of a multipart part */
+const MAX_PART_HEADER_SIZE = 16 * 1024;
+
+/**
+ * Thrown when a request body is over its limit, answered with 413
+ */
+export class PayloadTooLargeError extends Error {
+  public readonly status = 413;
+  public readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Request body is larger than ${limit} bytes`);
+    this.name = 'PayloadTooLargeError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * Thrown for a malformed multipart body, answered with 400
+ */
+export class BodyParseError extends Error {
+  public readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BodyParseError';
+  }
+}
+
+/**
+ * Finds a body error, thrown directly or as the cause of another error
+ * (as `request.json()` does for a Web handler)
+ */
+export function getBodyError(error): PayloadTooLargeError | BodyParseError | null {
+  for (let current = error; current; current = current.cause) {
+    if (current instanceof PayloadTooLargeError || current instanceof BodyParseError) return current;
+  }
+  return null;
+}
+
+// Each request body is read once, whoever asks first (middleware, API route, action)
+const bodies = new WeakMap<object, Promise<any>>();
+
+// Uploads spilled to disk, removed when the response ends
+const tempFiles = new WeakMap<object, string[]>();
+
+/**
+ * Gets the limit that applies to a request, by content type
+ */
+function getLimit(req, limits: Required<BodyLimits>): number {
+  return isMultipart(req) ? limits.maxUploadSize : limits.maxSize;
+}
+
+function isMultipart(req): boolean {
+  return /^multipart\/form-data/i.test(String(req.headers['content-type'] || ''));
+}
+
+/**
+ * Rejects a request whose declared Content-Length is already over the limit
+ */
+function checkContentLength(req, limit: number) {
+  const contentLength = Number(req.headers['content-length']);
+  if (contentLength > limit) throw new PayloadTooLargeError(limit);
+}
+
+/**
+ * Reads a request chunk by chunk, waiting for async handlers before reading on.
+ * Past the limit, the rest of the body is discarded so a 413 can still be sent.
+ */
+function consume(req, limit: number, onChunk: (chunk: Buffer) => void | Promise<void>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    let failed = false;
+    // The chunk being handled, 'end' can fire before it's done
+    let pending: Promise<void> = Promise.resolve();
+
+    const fail = (error) => {
+      if (failed) return;
+      failed = true;
+      req.off('data', onData);
+      req.resume();
+      reject(error);
+    };
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) return fail(new PayloadTooLargeError(limit));
+
+      try {
+        const result = onChunk(chunk);
+        if (result instanceof Promise) {
+          req.pause();
+          pending = result.then(() => { if (!failed) req.resume(); }, fail);
+        }
+      } catch (error) {
+        fail(error);
+      }
+    };
+
+    req.on('data', onData);
+    req.once('end', () => pending.then(() => !failed && resolve()));
+    req.once('error', fail);
+  });
+}
+
+/**
+ * Reads and parses a request body: an object for JSON and urlencoded forms,
+ * FormData for multipart/form-data, a string for anything else and null when empty.
+ * The body is read once per request, later calls get the same result.
+ */
+export function readRequestBody(req, limits: BodyLimits = {}): Promise<any> {
+  let body = bodies.get(req);
+
+  if (!body) {
+    body = parseRequestBody(req, { ...DEFAULT_BODY_LIMITS, ...limits });
+    bodies.set(req, body);
+  }
+
+  return body;
+}
+
+async function parseRequestBody(req, limits: Required<BodyLimits>) {
+  if (req.method === 'GET' || req.method === 'HEAD') return null;
+
+  const limit = getLimit(req, limits);
+  checkContentLength(req, limit);
+
+  if (isMultipart(req)) {
+    const parser = new MultipartParser(getBoundary(req.headers['content-type']), limits.diskThreshold);
+    tempFiles.set(req, parser.tempFiles);
+
+    try {
+      await consume(req, limit, (chunk) => parser.write(chunk));
+    } catch (error) {
+      await parser.abort();
+      throw error;
+    }
+    return parser.end();
+  }
+
+  const chunks: Buffer[] = [];
+  await consume(req, limit, (chunk) => {
+    chunks.push(chunk);
+  });
+
+  const contentType = String(req.headers['content-type'] || '');
+  const body = Buffer.concat(chunks).toString('utf-8');
+
+  try {
+    if (contentType.includes('application/json') && body) {
+      return JSON.parse(body);
+    }
+    if (contentType.includes('application/x-www-form-urlencoded') && body) {
+      return parseUrlEncoded(body);
+    }
+  } catch {
+    // Malformed JSON is passed on as text
+  }
+
+  return body || null;
+}
+
+/**
+ * Parses a urlencoded form, a field sent more than once becomes an array of its values
+ */
+function parseUrlEncoded(body: string): Record<string, string | string[]> {
+  const fields = new Map<string, string[]>();
+
+  for (const [name, value] of new URLSearchParams(body)) {
+    const values = fields.get(name);
+    if (values) values.push(value);
+    else fields.set(name, [value]);
+  }
+
+  return Object.fromEntries([...fields].map(([name, values]) => [name, values.length === 1 ? values[0] : values]));
+}
+
+/**
+ * Turns a parsed urlencoded form back into its fields, every value of an array included
+ */
+function toSearchParams(fields: Record<string, string | string[]>): URLSearchParams {
+  const params = new URLSearchParams();
+
+  for (const [name, value] of Object.entries(fields)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(name, String(item));
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Creates the Web Request for a Web-standard API handler. The body streams
+ * within the limits, or is rebuilt when middleware already read it.
+ */
+export async function createWebRequest(req, limits: BodyLimits = {}): Promise<Request> {
+  const resolvedLimits = { ...DEFAULT_BODY_LIMITS, ...limits };
+
+  if (req.method === 'GET' || req.method === 'HEAD') {
+    return toWebRequest(req, { body: false });
+  }
+
+  const request = toWebRequest(req, { body: false });
+
+  if (bodies.has(req)) {
+    const body = await bodies.get(req);
+    const headers = new Headers(request.headers);
+    headers.delete('content-length');
+
+    // FormData gets a new boundary
+    if (body instanceof FormData) headers.delete('content-type');
+
+    return new Request(request, {
+      headers,
+      body: body === null || body instanceof FormData || typeof body === 'string'
+        ? body
+        : /application\/json/i.test(headers.get('content-type') || '')
+          ? JSON.stringify(body)
+          : toSearchParams(body)
+    });
+  }
+
+  const limit = getLimit(req, resolvedLimits);
+  checkContentLength(req, limit);
+
+  return new Request(request, {
+    body: createLimitedStream(req, limit),
+    // @ts-ignore - duplex is needed for streaming request bodies
+    duplex: 'half'
+  });
+}
+
+/**
+ * Streams a request body, erroring with PayloadTooLargeError past the limit
+ */
+function createLimitedStream(req, limit: number): ReadableStream<Uint8Array> {
+  let size = 0;
+
+  return new ReadableStream({
+    start(controller) {
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+
+        if (size > limit) {
+          req.off('data', onData);
+          req.resume();
+          controller.error(new PayloadTooLargeError(limit));
+          return;
+        }
+
+        controller.enqueue(new Uint8Array(chunk));
+        if ((controller.desiredSize ?? 1) <= 0) req.pause();
+      };
+
+      req.on('data', onData);
+      req.once('end', () => {
+        if (size <= limit) controller.close();
+      });
+      req.once('error', (error) => controller.error(error));
+    },
+
+    pull() {
+      req.resume();
+    },
+
+    cancel() {
+      // Discard the rest, the response can still be sent
+      req.resume();
+    }
+  });
+}
+
+/**
+ * Removes the uploads of a request that were written to disk
+ */
+export async function cleanupRequestBody(req) {
+  const files = tempFiles.get(req);
+  if (!files?.length) return;
+
+  tempFiles.delete(req);
+  await Promise.all(files.map((file) => fs.promises.rm(file, { force: true })));
+}
+
+/**
+ * Gets the boundary parameter of a multipart Content-Type
+ */
+function getBoundary(contentType: string): string {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  const boundary = match && (match[1] || match[2]).trim();
+
+  if (!boundary) throw new BodyParseError('Missing multipart boundary');
+  return boundary;
+}
+
+/**
+ * Parses the parameters of a Content-Disposition header
+ */
+function parseDisposition(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const pattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+
+  let match;
+  while ((match = pattern.exec(header))) {
+    const key = match[1].toLowerCase();
+    const value = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim();
+
+    // RFC 5987 `filename*=UTF-8''na%C3%AFve.txt`
+    if (key.endsWith('*')) {
+      const encoded = value.replace(/^[\w-]*'[\w-]*'/, '');
+      try {
+        params[key.slice(0, -1)] = decodeURIComponent(encoded);
+      } catch {
+        params[key.slice(0, -1)] = encoded;
+      }
+    } else if (!(key in params)) {
+      params[key] = value;
+    }
+  }
+
+  return params;
+}
+
+interface Part {
+  name: string | null;
+  filename: string | null;
+  type: string;
+  chunks: Buffer[];
+  size: number;
+  /** Set once the part is written to disk */
+  file: { path: string; handle: fs.promises.FileHandle } | null;
+}
+
+/**
+ * Streaming multipart/form-data parser. Fields are kept in memory, files
+ * move to a temporary file once they grow past `diskThreshold`.
+ */
+class MultipartParser {
+  delimiter: Buffer;
+  diskThreshold: number;
+  formData = new FormData();
+  tempFiles: string[] = [];
+
+  // The body starts with a boundary and no line break, this lets it match the delimiter
+  buffer: Buffer = Buffer.from('\r\n');
+  state: 'preamble' | 'boundary' | 'headers' | 'body' | 'done' = 'preamble';
+  part: Part | null = null;
+  aborted = false;
+
+  constructor(boundary: string, diskThreshold: number) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    this.diskThreshold = diskThreshold;
+  }
+
+  async write(chunk: Buffer) {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.state !== 'done' && !this.aborted) {
+      if (this.state === 'preamble') {
+        const index = this.buffer.indexOf(this.delimiter);
+        if (index === -1) {
+          this.buffer = this.buffer.subarray(Math.max(this.buffer.length - this.delimiter.length, 0));
+          return;
+        }
+
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.state = 'boundary';
+      }
+
+      if (this.state === 'boundary') {
+        if (this.buffer.length < 2) return;
+
+        // `--boundary--` closes the body
+        if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+          this.state = 'done';
+          this.buffer = Buffer.alloc(0);
+          return;
+        }
+
+        const index = this.buffer.indexOf('\r\n');
+        if (index === -1) {
+          if (this.buffer.length > 1024) throw new BodyParseError('Malformed multipart boundary');
+          return;
+        }
+
+        this.buffer = this.buffer.subarray(index + 2);
+        this.state = 'headers';
+      }
+
+      if (this.state === 'headers') {
+        const index = this.buffer.indexOf('\r\n\r\n');
+        if (index === -1) {
+          if (this.buffer.length > MAX_PART_HEADER_SIZE) throw new BodyParseError('Multipart headers are too large');
+          return;
+        }
+
+        this.startPart(this.buffer.subarray(0, index).toString('utf-8'));
+        this.buffer = this.buffer.subarray(index + 4);
+        this.state = 'body';
+      }
+
+      if (this.state === 'body') {
+        const index = this.buffer.indexOf(this.delimiter);
+
+        if (index === -1) {
+          // Keep what could be the start of the next delimiter
+          const safeLength = this.buffer.length - this.delimiter.length + 1;
+          if (safeLength > 0) {
+            await this.writePart(this.buffer.subarray(0, safeLength));
+            this.buffer = this.buffer.subarray(safeLength);
+          }
+          return;
+        }
+
+        await this.writePart(this.buffer.subarray(0, index));
+        await this.endPart();
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.state = 'boundary';
+      }
+    }
+  }
+
+  startPart(rawHeaders: string) {
+    const headers: Record<string, string> = {};
+    for (const line of rawHeaders.split('\r\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    const disposition = parseDisposition(headers['content-disposition'] || '');
+
+    this.part = {
+      name: disposition.name ?? null,
+      filename: disposition.filename ?? null,
+      type: headers['content-type'] || (disposition.filename !== undefined ? 'application/octet-stream' : ''),
+      chunks: [],
+      size: 0,
+      file: null
+    };
+  }
+
+  async writePart(data: Buffer) {
+    const part = this.part;
+    if (!part || part.name === null || data.length === 0) return;
+
+    part.size += data.length;
+
+    if (part.file) {
+      await part.file.handle.write(data);
+      return;
+    }
+
+    // Copied, the parser's buffer is reused
+    part.chunks.push(Buffer.from(data));
+
+    if (part.filename !== null && part.size > this.diskThreshold) {
+      const filePath = path.join(os.tmpdir(), `flexi-upload-${crypto.randomUUID()}`);
+      this.tempFiles.push(filePath);
+
+      const handle = await fs.promises.open(filePath, 'w');
+      part.file = { path: filePath, handle };
+
+      // The body failed while the file was opening
+      if (this.aborted) {
+        await handle.close();
+        return;
+      }
+
+      await handle.write(Buffer.concat(part.chunks));
+      part.chunks = [];
+    }
+  }
+
+  async endPart() {
+    const part = this.part;
+    this.part = null;
+    if (!part || part.name === null) return;
+
+    if (part.filename === null) {
+      this.formData.append(part.name, Buffer.concat(part.chunks).toString('utf-8'));
+      return;
+    }
+
+    let blob: Blob;
+    if (part.file) {
+      await part.file.handle.close();
+      blob = await fs.openAsBlob(part.file.path, { type: part.type });
+    } else {
+      blob = new Blob(part.chunks as BlobPart[], { type: part.type });
+    }
+
+    this.formData.append(part.name, new File([blob], part.filename, { type: part.type }));
+  }
+
+  async end(): Promise<FormData> {
+    if (this.state !== 'done') {
+      await this.abort();
+      throw new BodyParseError('Unexpected end of multipart body');
+    }
+
+    return this.formData;
+  }
+
+  /**
+   * Closes the file of the part being written, when the body fails or is over
+   * its limit. The file itself is removed with the request's other uploads.
+   */
+  async abort() {
+    this.aborted = true;
+
+    const file = this.part?.file;
+    this.part = null;
+    await file?.handle.close().catch(() => {});
+  }
+}
+
+export default {
+  readRequestBody,
+  createWebRequest,
+  cleanupRequestBody,
+  getBodyError,
+  PayloadTooLargeError,
+  BodyParseError,
+  DEFAULT_BODY_LIMITS
+};
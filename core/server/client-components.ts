@@ -0,0 +1,202 @@
+/**
+ * FlexiReact Client Components (dev)
+ * Finds and compiles the client components served from `/_flexi/component/`
+ * when there is no build output.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createRequire } from 'module';
+import { buildSync, transformSync } from 'esbuild';
+import * as babel from '@babel/core';
+import { isClientComponent, isIsland } from '../utils.js';
+import {
+  isServerModule,
+  getActionModulePath,
+  getExportNames,
+  getServerFunctionExports,
+  createServerReferenceModule,
+  replaceServerFunctions,
+  ACTIONS_CLIENT_PATH
+} from '../actions/transform.js';
+
+export const CLIENT_COMPONENT_PATH = '/_flexi/component/';
+
+/** Client side of server actions, imported by the references to 'use server' modules */
+export const ACTIONS_CLIENT_URL = '/_flexi/actions.js';
+
+/** Error boundary that error pages hydrate into, so their `reset()` re-mounts the segment */
+export const ERROR_BOUNDARY_URL = '/_flexi/error-boundary.js';
+
+const ERROR_BOUNDARY_PATH = fileURLToPath(new URL(`../client/error-boundary${import.meta.url.endsWith('.ts') ? '.ts' : '.js'}`, import.meta.url));
+
+let actionsClient: string | null = null;
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Finds the source of a client component from its name, relative to `pagesDir`
+ * (`counter`) or to the project root (`routes/counter`)
+ */
+export function resolveClientComponent(pagesDir: string, componentName: string): string | null {
+  // Remove .tsx.js or .jsx.js suffix if present
+  const cleanName = componentName.replace(/\.(tsx|jsx|ts|js)\.js$/, '').replace(/\.js$/, '');
+
+  // Find the component file (support TypeScript)
+  const extensions = ['.tsx', '.ts', '.jsx', '.js'];
+  const possiblePaths = extensions.map((ext) => path.join(pagesDir, `${cleanName}${ext}`));
+
+  const pagesPath = possiblePaths.find((p) => fs.existsSync(p));
+  if (pagesPath) return pagesPath;
+
+  // Client components anywhere in the project, by path (`routes/counter`).
+  // Only files marked 'use client' or 'use island', so server code stays private.
+  // 'use server' modules, and modules exporting functions that start with
+  // 'use server', are served with references to their actions.
+  const projectRoot = path.dirname(pagesDir);
+  const projectPath = path.resolve(projectRoot, cleanName);
+  const isProjectFile = projectPath.startsWith(projectRoot + path.sep) &&
+    !projectPath.split(path.sep).includes('node_modules');
+
+  if (!isProjectFile) return null;
+
+  return extensions
+    .map((ext) => `${projectPath}${ext}`)
+    .find((p) => fs.existsSync(p) && (isClientComponent(p) || isIsland(p) || definesServerFunctions(p))) || null;
+}
+
+/**
+ * Checks whether a file is a 'use server' module or exports functions starting with 'use server'
+ */
+function definesServerFunctions(filePath: string): boolean {
+  const source = fs.readFileSync(filePath, 'utf-8');
+  return isServerModule(source) || getServerFunctionExports(source, filePath).length > 0;
+}
+
+/**
+ * Keeps the line breaks of removed code, so the source map still lines up
+ */
+function blankOut(code: string): string {
+  return code.replace(/[^\n]/g, '');
+}
+
+/**
+ * Adds the React Fast Refresh registrations ($RefreshReg$/$RefreshSig$) to
+ * compiled code, so every component and the hooks it calls keep their state
+ * across hot updates, exported or not
+ */
+function addRefreshRegistrations(code: string, map: string, filename: string): { code: string; map: string } {
+  const result = babel.transformSync(code, {
+    filename,
+    babelrc: false,
+    configFile: false,
+    sourceMaps: true,
+    inputSourceMap: JSON.parse(map),
+    plugins: [[require('react-refresh/babel'), { skipEnvCheck: true }]]
+  });
+
+  return { code: result!.code!, map: JSON.stringify(result!.map) };
+}
+
+/**
+ * Compiles a client component for the browser. React imports are replaced by
+ * the globals the hydration script sets up, and components are registered with
+ * the Fast Refresh runtime of the HMR client. `map` is the source map of `code`.
+ */
+export function compileClientComponent(componentPath: string, projectRoot: string): { code: string; map: string } {
+  // Determine loader based on extension
+  const ext = path.extname(componentPath);
+  const loader = ext === '.tsx' ? 'tsx' : ext === '.ts' ? 'ts' : 'jsx';
+
+  let source = fs.readFileSync(componentPath, 'utf-8');
+
+  // Only references to the actions are sent, not the module
+  if (isServerModule(source)) {
+    const modulePath = getActionModulePath(projectRoot, componentPath);
+    return {
+      code: createServerReferenceModule(modulePath, getExportNames(source, componentPath), ACTIONS_CLIENT_URL),
+      map: JSON.stringify({ version: 3, sources: [], names: [], mappings: '' })
+    };
+  }
+
+  // Exported functions starting with 'use server' become references too
+  source = replaceServerFunctions(source, componentPath, getActionModulePath(projectRoot, componentPath), ACTIONS_CLIENT_URL);
+
+  // Remove 'use client' directive
+  source = source.replace(/^['"]use (client|server|island)['"];?\s*/m, blankOut);
+
+  const sourcefile = path.relative(projectRoot, componentPath).replace(/\\/g, '/');
+
+  // Transform for browser
+  const result = transformSync(source, {
+    loader,
+    format: 'esm',
+    jsx: 'transform',
+    jsxFactory: 'React.createElement',
+    jsxFragment: 'React.Fragment',
+    target: 'es2020',
+    sourcemap: 'external',
+    sourcefile,
+    sourcesContent: true,
+    // Replace React imports with global. Registrations go to the runtime loaded by the HMR client,
+    // declared as functions since the transform calls $RefreshSig$() above the banner.
+    banner: `
+        const React = window.React;
+        const useState = window.useState;
+        const useEffect = window.useEffect;
+        const useCallback = window.useCallback;
+        const useMemo = window.useMemo;
+        const useRef = window.useRef;
+        function $RefreshReg$(type, id) { window.__FLEXI_HMR__?.runtime?.register(type, ${JSON.stringify(sourcefile)} + ' ' + id); }
+        function $RefreshSig$() { return window.__FLEXI_HMR__?.runtime?.createSignatureFunctionForTransform() ?? ((type) => type); }
+      `
+  });
+
+  // Remove all React imports since we're using globals
+  let code = result.code;
+  // Remove: import React from 'react'
+  code = code.replace(/import\s+React\s+from\s+['"]react['"];?\s*/g, blankOut);
+  // Remove: import { useState } from 'react'
+  code = code.replace(/import\s+\{[^}]+\}\s+from\s+['"]react['"];?\s*/g, blankOut);
+  // Remove: import React, { useState } from 'react'
+  code = code.replace(/import\s+React\s*,\s*\{[^}]+\}\s+from\s+['"]react['"];?\s*/g, blankOut);
+
+  return addRefreshRegistrations(code, result.map, sourcefile);
+}
+
+/**
+ * Bundles the client side of server actions for the browser, once
+ */
+export function compileActionsClient(): string {
+  if (!actionsClient) {
+    const result = buildSync({
+      entryPoints: [ACTIONS_CLIENT_PATH],
+      bundle: true,
+      format: 'esm',
+      target: 'es2020',
+      write: false
+    });
+    actionsClient = result.outputFiles[0].text;
+  }
+
+  return actionsClient;
+}
+
+/**
+ * Compiles the error boundary for the browser, against the React the dev
+ * hydration script loads
+ */
+export function compileErrorBoundary(): string {
+  return compileClientComponent(ERROR_BOUNDARY_PATH, path.dirname(ERROR_BOUNDARY_PATH)).code;
+}
+
+export default {
+  resolveClientComponent,
+  compileClientComponent,
+  compileActionsClient,
+  compileErrorBoundary,
+  CLIENT_COMPONENT_PATH,
+  ACTIONS_CLIENT_URL,
+  ERROR_BOUNDARY_URL
+};
@@ -8,15 +8,45 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
 import { loadConfig, resolvePaths } from '../config.js';
-import { buildRouteTree, matchRoute, findRouteLayouts } from '../router/index.js';
-import { renderPage, renderError, renderLoading } from '../render/index.js';
+import { buildRouteTree, matchRoute, findBoundary, RouteType } from '../router/index.js';
+import { findUnknownMatchers } from '../router/diagnostics.js';
+import { writeRouteTypes } from '../router/typegen.js';
+import { createRouteIndex } from '../router/watcher.js';
+import { createHMRServer, getClientComponentUrl, HMR_WATCH_DIRS } from '../hmr/index.js';
+import { handleErrorFramesRequest } from '../error-overlay/index.js';
+import { mapErrorStack, findSourceLocation } from '../source-maps/index.js';
+import { compressResponse, getCompressionOptions } from '../compression/index.js';
+import { generateNonce, getCSPOptions, setCSPHeaders, handleCSPReport, nonceAttribute, getNoncePlaceholder } from '../csp/index.js';
+import { sendFile, IMMUTABLE_CACHE_CONTROL, REVALIDATE_CACHE_CONTROL } from './static-files.js';
+import { createModuleGraph, getModuleCacheStats } from '../module-graph/index.js';
+import { renderPage, renderPageStream, renderError, renderLoading } from '../render/index.js';
+import { loadLayoutChain } from '../render/layouts.js';
 import { loadMiddleware, runMiddleware } from '../middleware/index.js';
 import { loadPlugins, pluginManager, PluginHooks } from '../plugins/index.js';
 import { getRegisteredIslands, generateAdvancedHydrationScript } from '../islands/index.js';
 import { createRequestContext, RequestContext, RouteContext } from '../context.js';
 import { logger } from '../logger.js';
-import { RedirectError, NotFoundError } from '../helpers.js';
-import { executeAction, deserializeArgs } from '../actions/index.js';
+import { isClientComponent } from '../utils.js';
+import { RedirectError, NotFoundError, json } from '../helpers.js';
+import { readRequestBody, createWebRequest, cleanupRequestBody, getBodyError, BodyParseError } from './body.js';
+import { toWebRequest, sendWebResponse, isWebResponse, resolveMethodHandler, getAllowedMethods } from './adapter.js';
+import { loadBuildOutput } from './manifest.js';
+import {
+  resolveClientComponent,
+  compileClientComponent,
+  compileActionsClient,
+  compileErrorBoundary,
+  ACTIONS_CLIENT_URL,
+  ERROR_BOUNDARY_URL
+} from './client-components.js';
+import { ErrorBoundary } from '../client/error-boundary.js';
+import { createRequestStore, getRequestStore, runWithRequestStore } from '../request-store.js';
+import { executeAction, deserializeArgs, decodeFormAction, getAction, getActionOptions, setActionSigningKey } from '../actions/index.js';
+import { findActionModules } from '../actions/transform.js';
+import { ARGS_FIELD } from '../actions/client.js';
+import { ensureActionToken, verifyActionRequest, verifyFormActionRequest, ACTION_TOKEN_FIELD } from './action-security.js';
+import { ISRManager } from '../ssg/index.js';
+import { serialize, serializeToScript } from '../serialize/index.js';
 import { handleImageOptimization } from '../image/index.js';
 import { handleFontRequest } from '../font/index.js';
 import React from 'react';
@@ -63,6 +93,9 @@ export async function createServer(options: CreateServerOptions = {}) {
   // Show logo
   logger.logo();
 
+  // In dev, project files are only loaded again after they change
+  const moduleGraph = isDev ? createModuleGraph(projectRoot) : null;
+
   // Load configuration
   const rawConfig = await loadConfig(projectRoot);
   const config = resolvePaths(rawConfig, projectRoot);
@@ -76,17 +109,91 @@ export async function createServer(options: CreateServerOptions = {}) {
   // Load middleware
   const middleware = await loadMiddleware(projectRoot);
 
-  // Build routes
-  let routes = buildRouteTree(config.pagesDir, config.layoutsDir);
+  // Production runs the output of `flexi build` when there is one
+  const buildOutput = isDev ? null : loadBuildOutput(config.outDir, projectRoot);
+  if (!isDev && !buildOutput) {
+    logger.warn('No build found, serving from source. Run `flexi build` first.');
+  }
+
+  // Forms rendered by another server, or prerendered by the build, carry arguments signed with this key
+  const actionSigningKey = config.actions?.secret || buildOutput?.manifest.buildId;
+  if (actionSigningKey) setActionSigningKey(actionSigningKey);
+
+  // Build routes. In dev, a watcher keeps them up to date as files change
+  const routeIndex = isDev ? createRouteIndex({ pagesDir: config.pagesDir, layoutsDir: config.layoutsDir }) : null;
+  let routes = buildOutput
+    ? buildOutput.routes
+    : routeIndex ? routeIndex.getRoutes() : buildRouteTree(config.pagesDir, config.layoutsDir);
 
   // Run routes loaded hook
   await pluginManager.runHook(PluginHooks.ROUTES_LOADED, routes);
 
-  // Create module loader with cache busting for dev
-  const loadModule = createModuleLoader(isDev);
+  // Keep the generated route types in sync while developing
+  const updateRouteTypes = () => {
+    try {
+      writeRouteTypes(routes, config.outDir);
+    } catch (error: any) {
+      logger.warn(`Could not write route types: ${error.message}`);
+    }
+  };
+
+  // Warn about unreachable routes and unknown matchers, once per change to the route tree
+  let lastRouteReport = '';
+  const reportRouteDiagnostics = () => {
+    const messages = [
+      ...(routes.diagnostics || []),
+      ...findUnknownMatchers([...routes.api, ...routes.flexiRoutes, ...routes.appRoutes, ...routes.pages], config.matchers, projectRoot)
+    ].map((diagnostic) => diagnostic.message);
+    const report = messages.join('\n');
+
+    if (report !== lastRouteReport) {
+      messages.forEach((message) => logger.warn(message));
+      lastRouteReport = report;
+    }
+  };
 
-  // Create HTTP server
-  const server = http.createServer(async (req, res) => {
+  if (isDev) {
+    updateRouteTypes();
+    reportRouteDiagnostics();
+  }
+
+  // Pushes source changes to the browser in dev
+  const hmr = isDev
+    ? createHMRServer({
+      projectRoot,
+      dirs: Array.from(new Set([
+        ...HMR_WATCH_DIRS.map((dir) => path.join(projectRoot, dir)),
+        config.pagesDir,
+        config.layoutsDir
+      ]))
+    })
+    : null;
+
+  routeIndex?.subscribe((nextRoutes) => {
+    routes = nextRoutes;
+    updateRouteTypes();
+    reportRouteDiagnostics();
+    pluginManager.runHook(PluginHooks.ROUTES_LOADED, routes);
+    hmr?.broadcast({ type: 'routes' });
+  });
+
+  // Create module loader, reloading changed files in dev
+  const loadModule = createModuleLoader(isDev, buildOutput, moduleGraph);
+
+  // Loads the module of an action no page has loaded yet, from the build's action
+  // manifest. In dev, every project module that defines actions is loaded.
+  const loadActionModule = async (actionId) => {
+    const modules = buildOutput
+      ? [buildOutput.manifest.actions?.[actionId]?.module].filter(Boolean).map((module) => path.join(projectRoot, module))
+      : isDev ? findActionModules(projectRoot, [config.outDir, config.publicDir]) : [];
+
+    for (const modulePath of modules) {
+      await loadModule(modulePath);
+    }
+  };
+
+  // Handle a request
+  const handleRequest = async (req, res) => {
     const startTime = Date.now();
 
     // Parse URL early so it's available in finally block
@@ -109,28 +216,68 @@ export async function createServer(options: CreateServerOptions = {}) {
         ? new URL(req.url, `http://${req.headers.host}`).pathname
         : pathname;
 
-      // Serve static files from public directory
-      if (await serveStaticFile(res, config.publicDir, effectivePath)) {
+      if (buildOutput) {
+        // Serve public assets and pre-rendered pages from the build output
+        if (await serveStaticFile(req, res, buildOutput.staticDir, effectivePath)) {
+          return;
+        }
+
+        if (await serveStaticPage(req, res, buildOutput.staticDir, effectivePath, getNoncePlaceholder(buildOutput.manifest.buildId))) {
+          return;
+        }
+      } else if (await serveStaticFile(req, res, config.publicDir, effectivePath)) {
+        // Serve static files from public directory
         return;
       }
 
       // Serve built assets in production
       if (!isDev && effectivePath.startsWith('/_flexi/')) {
         const assetPath = path.join(config.outDir, 'client', effectivePath.slice(8));
-        if (await serveStaticFile(res, path.dirname(assetPath), path.basename(assetPath))) {
+        if (await serveStaticFile(req, res, path.dirname(assetPath), path.basename(assetPath), { immutable: true })) {
           return;
         }
       }
 
       // Serve client components (for hydration)
       if (effectivePath.startsWith('/_flexi/component/')) {
-        const componentName = effectivePath.slice(18).replace('.js', '');
+        const componentName = decodeURIComponent(effectivePath.slice(18)).replace('.js', '');
         return await serveClientComponent(res, config.pagesDir, componentName);
       }
 
+      // Client side of server actions, bundled into the client chunks by `flexi build`
+      if (isDev && effectivePath === ACTIONS_CLIENT_URL) {
+        res.writeHead(200, { 'Content-Type': 'application/javascript', 'Cache-Control': 'no-cache' });
+        res.end(compileActionsClient());
+        return;
+      }
+
+      if (isDev && effectivePath === ERROR_BOUNDARY_URL) {
+        res.writeHead(200, { 'Content-Type': 'application/javascript', 'Cache-Control': 'no-cache' });
+        res.end(compileErrorBoundary());
+        return;
+      }
+
+      // Map client error stacks for the error overlay
+      if (isDev && await handleErrorFramesRequest(req, res, config.pagesDir)) {
+        return;
+      }
+
+      // Collect CSP violation reports
+      if (csp?.report === true && await handleCSPReport(req, res)) {
+        return;
+      }
+
       // Handle server actions
       if (effectivePath === '/_flexi/action' && req.method === 'POST') {
-        return await handleServerAction(req, res);
+        return await handleServerAction(req, res, config, loadActionModule);
+      }
+
+      // Hands out the action token to pages that didn't get one (static pages)
+      if (effectivePath === '/_flexi/action' && req.method === 'GET') {
+        ensureActionToken(req);
+        res.writeHead(204, { 'Cache-Control': 'no-store' });
+        res.end();
+        return;
       }
 
       // Handle image optimization
@@ -143,38 +290,37 @@ export async function createServer(options: CreateServerOptions = {}) {
         return await handleFontRequest(req, res);
       }
 
-      // Rebuild routes in dev mode for hot reload
-      if (isDev) {
-        routes = buildRouteTree(config.pagesDir, config.layoutsDir);
+      // Pick up route files changed since the last request
+      if (routeIndex) {
+        routes = routeIndex.getRoutes();
       }
 
       // Match API routes
-      const apiRoute = matchRoute(effectivePath, routes.api);
+      const apiRoute = matchRoute(effectivePath, routes.api, config.matchers);
       if (apiRoute) {
-        return await handleApiRoute(req, res, apiRoute, loadModule);
+        return await handleApiRoute(req, res, apiRoute, loadModule, config.server.body);
       }
 
       // Match FlexiReact v4 routes (routes/ directory - priority)
-      const flexiRoute = matchRoute(effectivePath, routes.flexiRoutes || []);
+      const flexiRoute = matchRoute(effectivePath, routes.flexiRoutes || [], config.matchers);
       if (flexiRoute) {
-        return await handlePageRoute(req, res, flexiRoute, routes, config, loadModule, url);
+        return await handlePageRoute(req, res, flexiRoute, routes, config, loadModule, url, isDev, buildOutput, loadActionModule);
       }
 
       // Match app routes (app/ directory - Next.js style)
-      const appRoute = matchRoute(effectivePath, routes.appRoutes || []);
+      const appRoute = matchRoute(effectivePath, routes.appRoutes || [], config.matchers);
       if (appRoute) {
-        return await handlePageRoute(req, res, appRoute, routes, config, loadModule, url);
+        return await handlePageRoute(req, res, appRoute, routes, config, loadModule, url, isDev, buildOutput, loadActionModule);
       }
 
       // Match page routes (pages/ directory - legacy fallback)
-      const pageRoute = matchRoute(effectivePath, routes.pages);
+      const pageRoute = matchRoute(effectivePath, routes.pages, config.matchers);
       if (pageRoute) {
-        return await handlePageRoute(req, res, pageRoute, routes, config, loadModule, url);
+        return await handlePageRoute(req, res, pageRoute, routes, config, loadModule, url, isDev, buildOutput, loadActionModule);
       }
 
-      // 404 Not Found
-      res.writeHead(404, { 'Content-Type': 'text/html' });
-      res.end(renderError(404, 'Page not found'));
+      // 404 Not Found, rendered with the root not-found page if there is one
+      await renderNotFoundPage(res, null, new NotFoundError(), { routes, config, loadModule, url, isDev, buildOutput });
 
     } catch (error: any) {
       // Handle redirect() calls
@@ -184,19 +330,19 @@ export async function createServer(options: CreateServerOptions = {}) {
         return;
       }
 
+      if (res.headersSent) {
+        logServerError('Server Error', error);
+        return;
+      }
+
       // Handle notFound() calls
       if (error instanceof NotFoundError) {
-        res.writeHead(404, { 'Content-Type': 'text/html' });
-        res.end(renderError(404, error.message));
+        await renderNotFoundPage(res, null, error, { routes, config, loadModule, url, isDev, buildOutput });
         return;
       }
 
-      console.error('Server Error:', error);
-
-      if (!res.headersSent) {
-        res.writeHead(500, { 'Content-Type': 'text/html' });
-        res.end(renderError(500, error.message, isDev ? error.stack : null));
-      }
+      logServerError('Server Error', error);
+      await renderErrorPage(res, null, error, { routes, config, loadModule, url, isDev, buildOutput });
     } finally {
       const duration = Date.now() - startTime;
       if (isDev) {
@@ -210,6 +356,39 @@ export async function createServer(options: CreateServerOptions = {}) {
       // Run response hook
       await pluginManager.runHook(PluginHooks.RESPONSE, req, res, duration);
     }
+  };
+
+  // Brotli or gzip, negotiated per response (config.server.compression)
+  const compression = getCompressionOptions(config);
+
+  // Content-Security-Policy with a nonce per response (config.csp)
+  const csp = getCSPOptions(config);
+
+  // Create HTTP server, each request gets its own store for cookies(), headers() and actions
+  const server = http.createServer((req, res) => {
+    // The hot reload channel stays open, it bypasses middleware and request logging
+    if (hmr?.handleRequest(req, res)) return;
+
+    if (compression) compressResponse(req, res, compression);
+
+    // Uploads buffered on disk only live as long as the request
+    res.on('close', () => cleanupRequestBody(req));
+
+    const store = createRequestStore(toWebRequest(req, { body: false }), {
+      setCookie: (cookie) => appendSetCookie(res, cookie)
+    });
+
+    if (csp) {
+      store.nonce = generateNonce();
+      setCSPHeaders(res, csp, store.nonce);
+    }
+
+    return runWithRequestStore(store, () => handleRequest(req, res));
+  });
+
+  server.on('close', () => {
+    routeIndex?.close();
+    hmr?.close();
   });
 
   // Start server
@@ -248,20 +427,39 @@ export async function createServer(options: CreateServerOptions = {}) {
 }
 
 /**
- * Creates a module loader with optional cache busting
+ * Adds a Set-Cookie header from cookies().set() to the response
+ */
+function appendSetCookie(res, cookie) {
+  if (res.headersSent) {
+    console.warn('[FlexiReact] cookies().set() was called after the response headers were sent, the cookie was dropped.');
+    return;
+  }
+
+  res.appendHeader('Set-Cookie', cookie);
+}
+
+/**
+ * Creates a module loader. In dev, the module graph reloads files that changed;
+ * without it, every load busts the cache.
+ * With a build output, source paths resolve to the compiled server modules.
  */
-function createModuleLoader(isDev) {
+function createModuleLoader(isDev, buildOutput = null, moduleGraph = null) {
   return async (filePath) => {
-    const url = pathToFileURL(filePath).href;
+    if (moduleGraph) {
+      return moduleGraph.importModule(filePath);
+    }
+
+    const modulePath = buildOutput?.resolveServerModule(filePath) || filePath;
+    const url = pathToFileURL(modulePath).href;
     const cacheBuster = isDev ? `?t=${Date.now()}` : '';
     return import(`${url}${cacheBuster}`);
   };
 }
 
 /**
- * Serves static files
+ * Serves static files. `immutable` is for content-hashed files, which are cached for good.
  */
-async function serveStaticFile(res, baseDir, pathname) {
+async function serveStaticFile(req, res, baseDir, pathname, { immutable = false } = {}) {
   // Prevent directory traversal
   const safePath = path.normalize(pathname).replace(/^(\.\.[\/\\])+/, '');
   const filePath = path.join(baseDir, safePath);
@@ -279,31 +477,89 @@ async function serveStaticFile(res, baseDir, pathname) {
   const ext = path.extname(filePath).toLowerCase();
   const contentType = MIME_TYPES[ext] || 'application/octet-stream';
 
-  res.writeHead(200, {
+  await sendFile(req, res, filePath, stat, {
     'Content-Type': contentType,
-    'Content-Length': stat.size,
-    'Cache-Control': 'public, max-age=31536000'
-  });
+    'Cache-Control': immutable ? IMMUTABLE_CACHE_CONTROL : REVALIDATE_CACHE_CONTROL
+  }, { hashed: immutable });
+  return true;
+}
+
+/**
+ * Serves a page pre-rendered by `flexi build` (`/about` → `about/index.html`)
+ */
+async function serveStaticPage(req, res, staticDir, pathname, noncePlaceholder) {
+  if (!['GET', 'HEAD'].includes(req.method)) {
+    return false;
+  }
+
+  const safePath = path.normalize(pathname).replace(/^(\.\.[\/\\])+/, '');
+  const filePath = path.join(staticDir, safePath, 'index.html');
+
+  if (!filePath.startsWith(staticDir) || !fs.existsSync(filePath)) {
+    return false;
+  }
+
+  // With CSP on, the page gets the nonce of this response, so the file isn't sent as it is
+  const nonce = getRequestStore()?.nonce;
+  if (nonce) {
+    const html = (await fs.promises.readFile(filePath, 'utf-8')).replaceAll(noncePlaceholder, nonce);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Length': Buffer.byteLength(html),
+      'Cache-Control': 'no-cache'
+    });
+    res.end(req.method === 'HEAD' ? undefined : html);
+    return true;
+  }
+
+  const stat = fs.statSync(filePath);
 
-  fs.createReadStream(filePath).pipe(res);
+  await sendFile(req, res, filePath, stat, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': REVALIDATE_CACHE_CONTROL
+  });
   return true;
 }
 
 /**
  * Handles API route requests
+ *
+ * Uppercase exports (`GET`, `POST`, ...) are Web-standard handlers:
+ * `(request: Request, { params }) => Response`. Lowercase exports and
+ * the default export keep the legacy Node-style `(req, res)` signature.
+ *
+ * A module written before Web handlers existed opts its uppercase exports
+ * into the Node-style signature with `export const legacyHandlers = true`.
  */
-async function handleApiRoute(req, res, route, loadModule) {
+async function handleApiRoute(req, res, route, loadModule, bodyLimits) {
   try {
     const module = await loadModule(route.filePath);
     const method = req.method.toLowerCase();
 
-    // Parse request body
-    const body = await parseBody(req);
+    const store = getRequestStore();
+    if (store) store.params = route.params;
 
     // Parse query
     const url = new URL(req.url, `http://${req.headers.host}`);
     const query = Object.fromEntries(url.searchParams);
 
+    // Web-standard handler (same signature as createEdgeApp routes)
+    const webHandler = module.legacyHandlers === true ? null : resolveMethodHandler(module, req.method);
+    if (webHandler) {
+      const request = await createWebRequest(req, bodyLimits);
+
+      // headers() and cookies() see the same request the handler gets
+      if (store) store.request = request;
+
+      const result = await webHandler(request, { params: route.params });
+      await sendApiResult(res, result, req.method);
+      return;
+    }
+
+    // Parse request body
+    const body = await readRequestBody(req, bodyLimits);
+
     // Enhanced request
     const enhancedReq = {
       ...req,
@@ -316,18 +572,44 @@ async function handleApiRoute(req, res, route, loadModule) {
     // Enhanced response
     const enhancedRes = createApiResponse(res);
 
-    // Find handler (check both lowercase and uppercase method names)
-    const handler = module[method] || module[method.toUpperCase()] || module.default;
+    // Find legacy handler
+    const handler = module[method]
+      || (module.legacyHandlers === true ? resolveMethodHandler(module, req.method) : null)
+      || module.default;
 
     if (!handler) {
+      const allowed = getAllowedMethods(module);
+      if (allowed.length > 0) {
+        enhancedRes.setHeader('Allow', allowed.join(', '));
+      }
       enhancedRes.status(405).json({ error: 'Method not allowed' });
       return;
     }
 
-    await handler(enhancedReq, enhancedRes);
+    const result = await handler(enhancedReq, enhancedRes);
+
+    // Legacy handlers may also return a Response built with json()/html()/text()
+    if (isWebResponse(result) && !res.headersSent) {
+      await sendWebResponse(res, result, { method: req.method });
+    }
 
   } catch (error) {
-    console.error('API Error:', error);
+    if (sendBodyError(res, error)) return;
+
+    // Handle redirect() and notFound() thrown from handlers
+    if (error instanceof RedirectError && !res.headersSent) {
+      res.writeHead(error.statusCode, { 'Location': error.url });
+      res.end();
+      return;
+    }
+
+    if (error instanceof NotFoundError && !res.headersSent) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error.message }));
+      return;
+    }
+
+    logServerError('API Error', error);
     if (!res.headersSent) {
       res.writeHead(500, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Internal Server Error' }));
@@ -336,13 +618,107 @@ async function handleApiRoute(req, res, route, loadModule) {
 }
 
 /**
- * Handles server action requests
+ * Sends the value returned by a Web-standard API handler.
+ * Responses are streamed as-is, `undefined` becomes 204 and
+ * any other value is serialized as JSON.
+ */
+async function sendApiResult(res, result, method) {
+  if (res.headersSent) return;
+
+  if (isWebResponse(result)) {
+    await sendWebResponse(res, result, { method });
+    return;
+  }
+
+  if (result === undefined) {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  await sendWebResponse(res, json(result), { method });
+}
+
+/**
+ * Sends 413 or 400 for a body over its limit or a malformed upload.
+ * Returns false for any other error.
+ */
+function sendBodyError(res, error): boolean {
+  const bodyError = getBodyError(error);
+  if (!bodyError || res.headersSent) return false;
+
+  res.writeHead(bodyError.status, {
+    'Content-Type': 'application/json',
+    // The rest of an oversized body is never read
+    ...(bodyError.status === 413 ? { 'Connection': 'close' } : {})
+  });
+  res.end(JSON.stringify({ success: false, error: bodyError.message }));
+  return true;
+}
+
+/**
+ * Reads the JSON arguments of an action posted as multipart/form-data
+ */
+function parseArgsField(field) {
+  try {
+    const args = typeof field === 'string' ? JSON.parse(field) : null;
+    if (Array.isArray(args)) return args;
+  } catch {
+    // Answered below
+  }
+
+  throw new BodyParseError(`Malformed ${ARGS_FIELD} field`);
+}
+
+/**
+ * Handles server action requests. The body is JSON (`{ actionId, args }`) or
+ * multipart/form-data with an `actionId` field. When the client called the
+ * action with FormData or files, `$args` has the arguments, referring to the
+ * other fields. Otherwise the action gets the rest of the FormData, uploads included.
+ *
+ * Requests must come from the same origin (or `config.actions.allowedOrigins`)
+ * with the action token, unless the action was registered with `csrf: false`.
  */
-async function handleServerAction(req, res) {
+async function handleServerAction(req, res, config, loadActionModule) {
   try {
     // Parse request body
-    const body: any = await parseBody(req);
-    const { actionId, args } = body;
+    const body: any = await readRequestBody(req, config.server.body);
+
+    let actionId;
+    let args;
+
+    if (body instanceof FormData && body.has(ARGS_FIELD)) {
+      // Called with FormData or files among the arguments
+      actionId = body.get('actionId');
+      args = deserializeArgs(parseArgsField(body.get(ARGS_FIELD)), body);
+    } else if (body instanceof FormData) {
+      actionId = body.get('actionId');
+      args = [body];
+    } else {
+      ({ actionId, args } = typeof body === 'object' && body || {});
+      args = deserializeArgs(args || []);
+    }
+
+    // Actions are registered as their module loads, which may not have happened on this instance yet
+    if (actionId && !getAction(actionId)) {
+      await loadActionModule(actionId);
+    }
+
+    const rejection = verifyActionRequest(req, body, {
+      ...config.actions,
+      ...(actionId && getActionOptions(actionId).csrf === false ? { csrf: false } : {})
+    });
+
+    if (rejection) {
+      res.writeHead(rejection.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, error: rejection.error }));
+      return;
+    }
+
+    if (body instanceof FormData) {
+      body.delete('actionId');
+      body.delete(ACTION_TOKEN_FIELD);
+    }
 
     if (!actionId) {
       res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -350,26 +726,20 @@ async function handleServerAction(req, res) {
       return;
     }
 
-    // Deserialize arguments
-    const deserializedArgs = deserializeArgs(args || []);
-
-    // Execute the action
-    const result = await executeAction(actionId, deserializedArgs, {
-      request: new Request(`http://${req.headers.host}${req.url}`, {
-        method: req.method,
-        headers: req.headers as any
-      })
-    });
+    // Execute the action, inside the request store set up by createServer
+    const result = await executeAction(actionId, args);
 
     // Send response
     res.writeHead(200, {
       'Content-Type': 'application/json',
       'X-Flexi-Action': actionId
     });
-    res.end(JSON.stringify(result));
+    res.end(serialize(result, { label: `Result of action ${actionId}` }));
 
   } catch (error: any) {
-    console.error('Server Action Error:', error);
+    if (sendBodyError(res, error)) return;
+
+    logServerError('Server Action Error', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({
       success: false,
@@ -378,6 +748,74 @@ async function handleServerAction(req, res) {
   }
 }
 
+/**
+ * Runs the action of a form posted to a page, before hydration or without
+ * JavaScript. React renders such forms with hidden fields naming the action
+ * (see `decodeFormAction`), posted as multipart/form-data to the page URL.
+ *
+ * Sends a 303 when the action calls redirect(). Otherwise the action's result
+ * becomes the state of the `useActionState` hook that submitted the form, and
+ * returns false for the page to render. Returns false for other posts too.
+ */
+async function handleFormAction(req, res, config, loadActionModule): Promise<boolean> {
+  if (!/^multipart\/form-data\b/i.test(String(req.headers['content-type'] || ''))) {
+    return false;
+  }
+
+  let body;
+  try {
+    body = await readRequestBody(req, config.server.body);
+  } catch (error) {
+    if (sendBodyError(res, error)) return true;
+    throw error;
+  }
+
+  let formAction;
+  try {
+    formAction = body instanceof FormData ? decodeFormAction(body) : null;
+  } catch (error) {
+    if (sendBodyError(res, error)) return true;
+    throw error;
+  }
+
+  if (!formAction) return false;
+
+  if (!getAction(formAction.id)) {
+    await loadActionModule(formAction.id);
+  }
+
+  const rejection = verifyFormActionRequest(req, {
+    ...config.actions,
+    ...(getActionOptions(formAction.id).csrf === false ? { csrf: false } : {})
+  });
+
+  if (rejection) {
+    res.writeHead(rejection.status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(rejection.error);
+    return true;
+  }
+
+  const result = await executeAction(formAction.id, [...formAction.bound, formAction.formData]);
+
+  if (result.redirect) {
+    res.writeHead(303, { 'Location': result.redirect });
+    res.end();
+    return true;
+  }
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  // useActionState bound its previous state, the rest are the action's own bound arguments
+  const store = getRequestStore();
+  if (store && formAction.key) {
+    store.formState = [result.data, formAction.key, formAction.id, formAction.bound.length - 1];
+  }
+
+  return false;
+}
+
 /**
  * Creates an enhanced API response object
  */
@@ -424,17 +862,60 @@ function createApiResponse(res) {
 
     _send(body) {
       if (!this._res.headersSent) {
-        this._res.writeHead(this._status, this._headers);
+        this._res.writeHead(this._status, { ...this._headers, 'Content-Length': Buffer.byteLength(body) });
         this._res.end(body);
       }
     }
   };
 }
 
+/**
+ * Crawlers should receive the complete document instead of a progressive stream
+ */
+const BOT_USER_AGENT = /bot|crawler|spider|crawling|slurp|facebookexternalhit|embedly|preview/i;
+
+function isBotRequest(req) {
+  return BOT_USER_AGENT.test(req.headers['user-agent'] || '');
+}
+
+/**
+ * ISR cache shared by all page routes
+ */
+const isrManager = new ISRManager();
+
+/**
+ * Pages are cached when they export `revalidate` or getStaticProps.
+ * `revalidate = 0` and getServerSideProps keep a page dynamic.
+ */
+function isISRPage(pageModule) {
+  if (pageModule.getServerSideProps || pageModule.revalidate === 0) {
+    return false;
+  }
+
+  return !!pageModule.getStaticProps || pageModule.revalidate !== undefined;
+}
+
+/**
+ * Lets shared caches keep the page until it is due for regeneration
+ */
+function getISRCacheControl(page) {
+  // `revalidate: 0`, rendered for this request only
+  if (page.revalidateAfter !== null && page.revalidateAfter <= page.generatedAt) {
+    return 'private, no-cache, no-store, max-age=0, must-revalidate';
+  }
+
+  if (!page.revalidateAfter) {
+    return 'public, max-age=0, s-maxage=31536000, stale-while-revalidate';
+  }
+
+  const remaining = Math.max(0, Math.ceil((page.revalidateAfter - Date.now()) / 1000));
+  return `public, max-age=0, s-maxage=${remaining}, stale-while-revalidate`;
+}
+
 /**
  * Handles page route requests with SSR
  */
-async function handlePageRoute(req, res, route, routes, config, loadModule, url) {
+async function handlePageRoute(req, res, route, routes, config, loadModule, url, isDev, buildOutput, loadActionModule) {
   try {
     // Run route-specific middleware if exists
     if (route.middleware) {
@@ -443,7 +924,12 @@ async function handlePageRoute(req, res, route, routes, config, loadModule, url)
         const middlewareFn = middlewareModule.default || middlewareModule.middleware;
 
         if (typeof middlewareFn === 'function') {
-          const result = await middlewareFn(req, res, { route, params: route.params });
+          // body() reads the request body once, the route gets the same result
+          const result = await middlewareFn(req, res, {
+            route,
+            params: route.params,
+            body: () => readRequestBody(req, config.server.body)
+          });
 
           // If middleware returns a response, use it
           if (result?.redirect) {
@@ -463,6 +949,7 @@ async function handlePageRoute(req, res, route, routes, config, loadModule, url)
           }
         }
       } catch (middlewareError: any) {
+        if (sendBodyError(res, middlewareError)) return;
         console.error('Route middleware error:', middlewareError.message);
       }
     }
@@ -475,10 +962,25 @@ async function handlePageRoute(req, res, route, routes, config, loadModule, url)
       throw new Error(`No default export in ${route.filePath}`);
     }
 
+    // Pages served from the ISR cache are public: shared caches would hand one
+    // visitor's token to everyone, so the client fetches its own (GET /_flexi/action)
+    const isCachedPage = !isDev && isISRPage(pageModule) && ['GET', 'HEAD'].includes(req.method);
+
+    // Server actions called from this page send the token back
+    if (!isCachedPage) ensureActionToken(req);
+
     // Create request context
     const query = Object.fromEntries(url.searchParams);
     const context = createRequestContext(req, res, route.params, query);
 
+    const store = getRequestStore();
+    if (store) store.params = route.params;
+
+    // Forms posted without JavaScript run their action, then the page renders with its state
+    if (req.method === 'POST' && await handleFormAction(req, res, config, loadActionModule)) {
+      return;
+    }
+
     // Get page props
     let props = { params: route.params, query };
 
@@ -500,48 +1002,12 @@ async function handlePageRoute(req, res, route, routes, config, loadModule, url)
       }
 
       if (result.notFound) {
-        res.writeHead(404, { 'Content-Type': 'text/html' });
-        res.end(renderError(404, 'Page not found'));
-        return;
-      }
-
-      props = { ...props, ...result.props };
-    }
-
-    // Handle getStaticProps (for ISR)
-    if (pageModule.getStaticProps) {
-      const result = await pageModule.getStaticProps({ params: route.params });
-
-      if (result.notFound) {
-        res.writeHead(404, { 'Content-Type': 'text/html' });
-        res.end(renderError(404, 'Page not found'));
-        return;
+        throw new NotFoundError();
       }
 
       props = { ...props, ...result.props };
     }
 
-    // Load layouts (only if layouts directory exists and has layouts)
-    const layouts = [];
-
-    try {
-      const layoutConfigs = findRouteLayouts(route, routes.layouts);
-      for (const layoutConfig of layoutConfigs) {
-        if (layoutConfig.filePath) {
-          const layoutModule = await loadModule(layoutConfig.filePath);
-          if (layoutModule.default) {
-            layouts.push({
-              Component: layoutModule.default,
-              props: {}
-            });
-          }
-        }
-      }
-    } catch (layoutError) {
-      // Layouts are optional, continue without them
-      console.warn('Layout loading skipped:', layoutError.message);
-    }
-
     // Load loading component if exists
     let LoadingComponent = null;
     if (route.loading) {
@@ -556,140 +1022,336 @@ async function handlePageRoute(req, res, route, routes, config, loadModule, url)
       ErrorComponent = errorModule.default;
     }
 
-    // Run before render hook
-    props = await pluginManager.runWaterfallHook(
-      PluginHooks.BEFORE_RENDER,
-      props,
-      { route, Component }
-    );
-
     // Check if this is a client component (needs hydration)
     const isClientComponent = route.isClientComponent ||
       (pageModule.__isClient) ||
       (typeof pageModule.default === 'function' && pageModule.default.toString().includes('useState'));
 
-    // Render the page
-    let html = await renderPage({
+    const renderOptions = {
       Component,
-      props,
-      layouts,
       loading: LoadingComponent,
       error: ErrorComponent,
-      islands: getRegisteredIslands(),
-      title: pageModule.title || pageModule.metadata?.title || 'FlexiReact App',
-      meta: pageModule.metadata || {},
       styles: config.styles || [],
       scripts: config.scripts || [],
       favicon: config.favicon || null,
       needsHydration: isClientComponent,
-      componentPath: route.filePath,
+      hmr: isDev,
+      errorOverlay: isDev,
+      moduleCache: isDev ? getModuleCacheStats() : null,
       route: route.path || url.pathname,
-      isSSG: !!pageModule.getStaticProps
-    });
+      isSSG: !!pageModule.getStaticProps,
+      nonce: getRequestStore()?.nonce
+    };
+
+    // Runs getStaticProps and the before render hook
+    const resolveProps = async (baseProps) => {
+      let pageProps = baseProps;
+      let staticResult: any = {};
+
+      if (pageModule.getStaticProps) {
+        staticResult = await pageModule.getStaticProps({ params: route.params }) || {};
+
+        if (staticResult.notFound) {
+          throw new NotFoundError();
+        }
+
+        pageProps = { ...pageProps, ...staticResult.props };
+      }
+
+      pageProps = await pluginManager.runWaterfallHook(
+        PluginHooks.BEFORE_RENDER,
+        pageProps,
+        { route, Component }
+      );
+
+      return { props: pageProps, staticResult };
+    };
+
+    // Island and client hydration scripts, once the page has rendered
+    const getHydrationScripts = (pageProps, nonce) => {
+      let scripts = '';
+
+      const islands = getRegisteredIslands();
+      if (islands.length > 0 && config.islands.enabled) {
+        scripts += generateAdvancedHydrationScript(islands, nonce);
+      }
+
+      // Add client hydration for 'use client' components
+      if (isClientComponent) {
+        scripts += generateClientHydrationScript(route.filePath, pageProps, buildOutput, { hmr: isDev, errorOverlay: isDev, projectRoot: path.dirname(config.pagesDir), nonce });
+      }
+
+      return scripts;
+    };
+
+    // Layouts with their loader data, and the page metadata merged over theirs
+    const resolveLayouts = async (layoutQuery) => {
+      const { layouts, metadata } = await loadLayoutChain(route, routes.layouts, loadModule, {
+        params: route.params,
+        query: layoutQuery,
+        pathname: url.pathname
+      });
+      const meta = { ...metadata, ...pageModule.metadata };
+
+      return {
+        layouts,
+        title: pageModule.title || meta.title || 'FlexiReact App',
+        meta
+      };
+    };
+
+    // Renders the complete document in one pass
+    const renderDocument = async (pageProps, layoutOptions, nonce = renderOptions.nonce) => {
+      let html = await renderPage({
+        ...renderOptions,
+        ...layoutOptions,
+        props: pageProps,
+        islands: getRegisteredIslands(),
+        componentPath: route.filePath,
+        nonce
+      });
+
+      html = html.replace('</body>', `${getHydrationScripts(pageProps, nonce)}</body>`);
+
+      // Run after render hook
+      return pluginManager.runWaterfallHook(
+        PluginHooks.AFTER_RENDER,
+        html,
+        { route, Component, props: pageProps, nonce }
+      );
+    };
+
+    // Serve `revalidate` and getStaticProps pages from the ISR cache
+    if (isCachedPage) {
+      // Cached for every request, each response gets its own nonce below
+      const placeholder = getNoncePlaceholder(buildOutput?.manifest.buildId);
+      const renderNonce = renderOptions.nonce && placeholder;
+
+      // Rendered once for every visitor, so cookies() and headers() don't see this visitor's request
+      const renderStore = () => ({
+        ...createRequestStore(new Request(new URL(url.pathname, url.origin)), { params: route.params }),
+        nonce: renderNonce
+      });
 
-    // Add island hydration script
-    const islands = getRegisteredIslands();
-    if (islands.length > 0 && config.islands.enabled) {
-      const hydrationScript = generateAdvancedHydrationScript(islands);
-      html = html.replace('</body>', `${hydrationScript}</body>`);
+      const page = await isrManager.getPage(url.pathname, () => runWithRequestStore(renderStore(), async () => {
+        // Cached pages are shared between requests, so they don't see the query
+        const { props: pageProps, staticResult } = await resolveProps({ params: route.params, query: {} });
+        const layoutOptions = await resolveLayouts({});
+
+        return {
+          html: await renderDocument(pageProps, layoutOptions, renderNonce),
+          revalidate: staticResult.revalidate ?? pageModule.revalidate,
+          tags: staticResult.tags
+        };
+      }));
+
+      res.writeHead(200, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': getISRCacheControl(page),
+        'X-Flexi-Cache': page.status
+      });
+      res.end(req.method === 'HEAD' ? undefined : page.html.replaceAll(placeholder, renderOptions.nonce || ''));
+      return;
     }
 
-    // Add client hydration for 'use client' components
-    if (isClientComponent) {
-      const hydrationScript = generateClientHydrationScript(route.filePath, props);
-      html = html.replace('</body>', `${hydrationScript}</body>`);
+    const resolved = await resolveProps(props);
+    props = resolved.props;
+
+    const layoutOptions = await resolveLayouts(query);
+
+    // Pages opt out of streaming with `export const streaming = false`
+    if (pageModule.streaming === false) {
+      const html = await renderDocument(props, layoutOptions);
+
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(html);
+      return;
     }
 
-    // Run after render hook
-    html = await pluginManager.runWaterfallHook(
-      PluginHooks.AFTER_RENDER,
-      html,
-      { route, Component, props }
-    );
+    // Stream the page, crawlers get the complete document in one go
+    const { stream, shellReady, abort } = await renderPageStream({
+      ...renderOptions,
+      ...layoutOptions,
+      props,
+      waitForAllReady: isBotRequest(req),
+      transformDocument: (html) => pluginManager.runWaterfallHook(
+        PluginHooks.AFTER_RENDER,
+        html,
+        { route, Component, props, streaming: true, nonce: renderOptions.nonce }
+      ),
+      bootstrap: () => getHydrationScripts(props, renderOptions.nonce)
+    });
+
+    res.on('close', () => {
+      if (!res.writableFinished) abort();
+    });
 
-    res.writeHead(200, { 'Content-Type': 'text/html' });
-    res.end(html);
+    // Errors thrown while rendering the shell (redirect(), notFound(), ...)
+    // reject here, before any headers are sent
+    await shellReady;
+
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    stream.pipe(res);
 
   } catch (error) {
-    console.error('Page Render Error:', error);
-    throw error;
+    // Redirects are handled by the caller, and nothing can be rendered once streaming started
+    if (error instanceof RedirectError || res.headersSent) {
+      throw error;
+    }
+
+    const boundaryContext = { routes, config, loadModule, url, isDev, buildOutput };
+
+    if (error instanceof NotFoundError) {
+      await renderNotFoundPage(res, route, error, boundaryContext);
+      return;
+    }
+
+    logServerError('Page Render Error', error);
+    await renderErrorPage(res, route, error, boundaryContext);
   }
 }
 
 /**
- * Serves a client component as JavaScript for hydration
+ * Logs a server error with its stack mapped to the original source.
+ * In dev, the code around the failing line is logged too.
  */
-async function serveClientComponent(res, pagesDir, componentName) {
-  const { transformSync } = await import('esbuild');
+function logServerError(label, error) {
+  mapErrorStack(error);
+  console.error(`${label}:`, error);
 
-  // Remove .tsx.js or .jsx.js suffix if present
-  const cleanName = componentName.replace(/\.(tsx|jsx|ts|js)\.js$/, '').replace(/\.js$/, '');
+  const location = process.env.NODE_ENV !== 'production' && findSourceLocation(error?.stack);
+  if (location) {
+    console.error(`\n  ${path.relative(process.cwd(), location.file)}:${location.line}:${location.column}\n${location.codeFrame.replace(/^/gm, '  ')}\n`);
+  }
+}
 
-  // Find the component file (support TypeScript)
-  const possiblePaths = [
-    path.join(pagesDir, `${cleanName}.tsx`),
-    path.join(pagesDir, `${cleanName}.ts`),
-    path.join(pagesDir, `${cleanName}.jsx`),
-    path.join(pagesDir, `${cleanName}.js`),
-  ];
+/**
+ * Renders the nearest not-found.tsx for a route (or the root one for unmatched URLs)
+ * with a 404 status, falling back to the built-in page
+ */
+async function renderNotFoundPage(res, route, error, context) {
+  const boundary = (route && findBoundary(route, RouteType.NOT_FOUND)) ||
+    (context.routes.notFound && { filePath: context.routes.notFound.filePath, route: context.routes.notFound });
 
-  let componentPath = null;
-  for (const p of possiblePaths) {
-    if (fs.existsSync(p)) {
-      componentPath = p;
-      break;
+  if (boundary) {
+    try {
+      await renderBoundaryPage(res, 404, boundary, {}, context);
+      return;
+    } catch (renderFailure) {
+      logServerError('Not Found Page Error', renderFailure);
+    }
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/html' });
+  res.end(renderError(404, error.message || 'Page not found'));
+}
+
+/**
+ * Renders the nearest error.tsx for a route with a 500 status.
+ * Falls back to global-error.tsx, then to the built-in page.
+ */
+async function renderErrorPage(res, route, error, context) {
+  const boundaries = [
+    route && findBoundary(route, RouteType.ERROR),
+    context.routes.globalError && { filePath: context.routes.globalError, route: null }
+  ].filter(Boolean);
+
+  const props = {
+    error: {
+      name: error.name,
+      message: error.message,
+      stack: context.isDev ? error.stack : undefined
+    }
+  };
+
+  for (const boundary of boundaries) {
+    try {
+      await renderBoundaryPage(res, 500, boundary, props, context);
+      return;
+    } catch (renderFailure) {
+      // The error page (or a layout above it) failed too, try the next one up
+      logServerError('Error Page Error', renderFailure);
     }
   }
 
+  res.writeHead(500, { 'Content-Type': 'text/html' });
+  res.end(renderError(500, error.message, context.isDev ? error.stack : null));
+}
+
+/**
+ * Renders a not-found or error page inside the layouts above it, as the
+ * fallback of an error boundary. Once hydrated, its `reset()` re-mounts the
+ * segment, which renders it again on the server.
+ */
+async function renderBoundaryPage(res, statusCode, boundary, props, { routes, config, loadModule, url, isDev, buildOutput }) {
+  const boundaryModule = await loadModule(boundary.filePath);
+  const Component = boundaryModule.default;
+
+  if (!Component) {
+    throw new Error(`No default export in ${boundary.filePath}`);
+  }
+
+  const { layouts, metadata } = boundary.route
+    ? await loadLayoutChain(boundary.route, routes.layouts, loadModule, {
+      params: boundary.route.params || {},
+      query: Object.fromEntries(url.searchParams),
+      pathname: url.pathname
+    })
+    : { layouts: [], metadata: {} };
+  const meta = { ...metadata, ...boundaryModule.metadata };
+
+  let html = await renderPage({
+    Component: ErrorBoundary,
+    props: { fallback: Component, failed: true, error: props.error ?? null },
+    layouts,
+    title: boundaryModule.title || meta.title || 'FlexiReact App',
+    meta,
+    styles: config.styles || [],
+    scripts: config.scripts || [],
+    favicon: config.favicon || null,
+    route: url.pathname,
+    hmr: isDev,
+    errorOverlay: isDev
+  });
+
+  const needsHydration = buildOutput
+    ? !!buildOutput.resolveClientEntry(boundary.filePath)
+    : isClientComponent(boundary.filePath);
+
+  if (needsHydration) {
+    html = html.replace('</body>', `${generateClientHydrationScript(boundary.filePath, props, buildOutput, {
+      resettable: true,
+      hmr: isDev,
+      errorOverlay: isDev,
+      projectRoot: path.dirname(config.pagesDir),
+      nonce: getRequestStore()?.nonce
+    })}</body>`);
+  }
+
+  res.writeHead(statusCode, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+}
+
+/**
+ * Serves a client component as JavaScript for hydration
+ */
+async function serveClientComponent(res, pagesDir, componentName) {
+  const componentPath = resolveClientComponent(pagesDir, componentName);
+
   if (!componentPath) {
     res.writeHead(404, { 'Content-Type': 'text/plain' });
-    res.end(`Component not found: ${cleanName}`);
+    res.end(`Component not found: ${componentName}`);
     return;
   }
 
-  // Determine loader based on extension
-  const ext = path.extname(componentPath);
-  const loader = ext === '.tsx' ? 'tsx' : ext === '.ts' ? 'ts' : 'jsx';
-
   try {
-    let source = fs.readFileSync(componentPath, 'utf-8');
-
-    // Remove 'use client' directive
-    source = source.replace(/^['"]use (client|server|island)['"];?\s*/m, '');
-
-    // Transform for browser
-    const result = transformSync(source, {
-      loader,
-      format: 'esm',
-      jsx: 'transform',
-      jsxFactory: 'React.createElement',
-      jsxFragment: 'React.Fragment',
-      target: 'es2020',
-      // Replace React imports with global
-      banner: `
-        const React = window.React;
-        const useState = window.useState;
-        const useEffect = window.useEffect;
-        const useCallback = window.useCallback;
-        const useMemo = window.useMemo;
-        const useRef = window.useRef;
-      `
-    });
-
-    // Remove all React imports since we're using globals
-    let code = result.code;
-    // Remove: import React from 'react'
-    code = code.replace(/import\s+React\s+from\s+['"]react['"];?\s*/g, '');
-    // Remove: import { useState } from 'react'
-    code = code.replace(/import\s+\{[^}]+\}\s+from\s+['"]react['"];?\s*/g, '');
-    // Remove: import React, { useState } from 'react'
-    code = code.replace(/import\s+React\s*,\s*\{[^}]+\}\s+from\s+['"]react['"];?\s*/g, '');
+    const { code, map } = compileClientComponent(componentPath, path.dirname(pagesDir));
 
     res.writeHead(200, {
       'Content-Type': 'application/javascript',
       'Cache-Control': 'no-cache'
     });
-    res.end(code);
+    res.end(`${code}\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(map).toString('base64')}\n`);
 
   } catch (error) {
     console.error('Error serving client component:', error);
@@ -701,18 +1363,43 @@ async function serveClientComponent(res, pagesDir, componentName) {
 /**
  * Generates client hydration script for 'use client' components
  */
-function generateClientHydrationScript(componentPath, props) {
-  // Create a relative path for the client bundle (handle .tsx, .ts, .jsx, .js)
-  const ext = path.extname(componentPath);
-  const componentName = path.basename(componentPath, ext);
+function generateClientHydrationScript(
+  componentPath,
+  props,
+  buildOutput = null,
+  options: { resettable?: boolean; hmr?: boolean; errorOverlay?: boolean; projectRoot?: string; nonce?: string } = {}
+) {
+  const propsCode = serializeToScript(props, { label: options.resettable ? 'Error page props' : 'Page props' });
+
+  // Use the chunks from `flexi build` when the component was bundled
+  const clientEntry = buildOutput?.resolveClientEntry(componentPath);
+  if (clientEntry && buildOutput.hydrationEntry) {
+    return `
+<script type="module"${nonceAttribute(options.nonce)}>
+  // FlexiReact Client Hydration
+  import { ${options.resettable ? 'hydrateErrorPage' : 'hydrateApp'} } from '${buildOutput.hydrationEntry}';
+  import Component from '${clientEntry}';
+
+  ${options.resettable ? 'hydrateErrorPage' : 'hydrateApp'}(Component, ${propsCode});
+</script>`;
+  }
+
+  // Served by path from the project root, or by name from pages/ (handle .tsx, .ts, .jsx, .js)
+  const componentUrl = options.projectRoot
+    ? getClientComponentUrl(componentPath, options.projectRoot)
+    : `/_flexi/component/${path.basename(componentPath, path.extname(componentPath))}.js`;
+
+  // Fast Refresh needs the development builds, and its runtime installed before react-dom loads
+  const reactQuery = options.hmr ? '?dev' : '';
 
   return `
-<script type="module">
+<script type="module"${nonceAttribute(options.nonce)}>
   // FlexiReact Client Hydration
   (async function() {
     try {
-      const React = await import('https://esm.sh/react@18.3.1');
-      const ReactDOM = await import('https://esm.sh/react-dom@18.3.1/client');
+      ${options.hmr ? 'await window.__FLEXI_HMR__?.ready;' : ''}
+      const React = await import('https://esm.sh/react@18.3.1${reactQuery}');
+      const ReactDOM = await import('https://esm.sh/react-dom@18.3.1/client${reactQuery}');
       
       // Make React available globally for the component
       window.React = React.default || React;
@@ -722,58 +1409,35 @@ function generateClientHydrationScript(componentPath, props) {
       window.useMemo = React.useMemo;
       window.useRef = React.useRef;
       
-      // Fetch the component code
-      const response = await fetch('/_flexi/component/${componentName}.js');
-      const code = await response.text();
-      
-      // Create and import the module
-      const blob = new Blob([code], { type: 'application/javascript' });
-      const moduleUrl = URL.createObjectURL(blob);
-      const module = await import(moduleUrl);
+      // Import the component from the dev server, so its stack frames can be source mapped
+      const module = await import(${JSON.stringify(componentUrl)});
+      ${options.hmr ? `window.__FLEXI_HMR__?.register(${JSON.stringify(componentUrl)}, module);` : ''}
       
       const Component = module.default;
-      const props = ${JSON.stringify(props)};
+      const props = ${propsCode};
+      ${options.resettable ? `
+      // Error pages hydrate as the fallback of a boundary, whose reset() re-mounts the segment
+      const { createErrorPageElement } = await import(${JSON.stringify(ERROR_BOUNDARY_URL)});
+      const element = createErrorPageElement(Component, props);` : `
+      const element = window.React.createElement(Component, props);`}
       
       // Hydrate the root
       const root = document.getElementById('root');
-      ReactDOM.hydrateRoot(root, window.React.createElement(Component, props));
+      ReactDOM.hydrateRoot(root, element, {
+        formState: window.__FLEXI_DATA__?.formState ?? null${options.errorOverlay ? `,
+        onRecoverableError: (error, info) => {
+          console.error(error);
+          window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration', componentStack: info?.componentStack });
+        }` : ''}
+      });
       
       console.log('⚡ FlexiReact: Component hydrated successfully');
     } catch (error) {
       console.error('⚡ FlexiReact: Hydration failed', error);
+      ${options.errorOverlay ? `window.__FLEXI_OVERLAY__?.report(error, { source: 'hydration' });` : ''}
     }
   })();
 </script>`;
 }
 
-/**
- * Parses request body
- */
-async function parseBody(req) {
-  return new Promise((resolve) => {
-    const contentType = req.headers['content-type'] || '';
-    let body = '';
-
-    req.on('data', chunk => {
-      body += chunk.toString();
-    });
-
-    req.on('end', () => {
-      try {
-        if (contentType.includes('application/json') && body) {
-          resolve(JSON.parse(body));
-        } else if (contentType.includes('application/x-www-form-urlencoded') && body) {
-          resolve(Object.fromEntries(new URLSearchParams(body)));
-        } else {
-          resolve(body || null);
-        }
-      } catch {
-        resolve(body);
-      }
-    });
-
-    req.on('error', () => resolve(null));
-  });
-}
-
 export default createServer;
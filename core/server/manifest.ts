@@ -0,0 +1,100 @@
+/**
+ * FlexiReact Build Manifest
+ * Lets the production server run the output of `flexi build`:
+ * compiled server modules, pre-rendered pages and client chunks.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { restoreRouteTree } from '../router/index.js';
+import type { ActionManifest } from '../actions/index.js';
+
+export interface BuildManifest {
+  version: string;
+  /** Random ID of the build, kept on the server (CSP nonce placeholders) */
+  buildId?: string;
+  generatedAt: string;
+  routes: Record<string, any>;
+  client: {
+    chunks: Array<{ file: string; size: number }>;
+    entries: Record<string, string>;
+    hydration: string | null;
+  };
+  server: {
+    modules: Array<{ file: string; size: number }>;
+    entries: Record<string, string>;
+  };
+  /** Modules and exports of the server actions, by action ID */
+  actions?: ActionManifest;
+  config: Record<string, any>;
+}
+
+export interface BuildOutput {
+  manifest: BuildManifest;
+  routes: ReturnType<typeof restoreRouteTree>;
+  staticDir: string;
+  resolveServerModule: (filePath: string) => string | null;
+  resolveClientEntry: (filePath: string) => string | null;
+  hydrationEntry: string | null;
+}
+
+/**
+ * Reads `manifest.json` from the output directory
+ */
+export function loadBuildManifest(outDir: string): BuildManifest | null {
+  const manifestPath = path.join(outDir, 'manifest.json');
+
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+
+    // Manifests from older builds don't describe the full route tree
+    if (!manifest.routes?.flexiRoutes || !manifest.server?.entries) {
+      return null;
+    }
+
+    return manifest;
+  } catch (error: any) {
+    console.warn('Warning: Failed to read build manifest:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Loads the build output for the production server
+ */
+export function loadBuildOutput(outDir: string, projectRoot: string): BuildOutput | null {
+  const manifest = loadBuildManifest(outDir);
+
+  if (!manifest) {
+    return null;
+  }
+
+  const toSource = (filePath: string) => path.relative(projectRoot, filePath).replace(/\\/g, '/');
+
+  return {
+    manifest,
+    routes: restoreRouteTree(manifest.routes, projectRoot),
+    staticDir: path.join(outDir, 'static'),
+
+    resolveServerModule(filePath) {
+      const output = manifest.server.entries[toSource(filePath)];
+      return output ? path.join(outDir, 'server', output) : null;
+    },
+
+    resolveClientEntry(filePath) {
+      const output = manifest.client.entries[toSource(filePath)];
+      return output ? `/_flexi/${output}` : null;
+    },
+
+    hydrationEntry: manifest.client.hydration ? `/_flexi/${manifest.client.hydration}` : null
+  };
+}
+
+export default {
+  loadBuildManifest,
+  loadBuildOutput
+};
@@ -0,0 +1,169 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { sendFile, getFileETag, isFresh, parseRange } from './static-files.js';
+
+describe('parseRange', () => {
+  test('reads a single byte range', () => {
+    assert.deepEqual(parseRange('bytes=0-499', 1000), { start: 0, end: 499 });
+    assert.deepEqual(parseRange('bytes=500-', 1000), { start: 500, end: 999 });
+    assert.deepEqual(parseRange('bytes=-100', 1000), { start: 900, end: 999 });
+  });
+
+  test('clamps the end and the suffix length to the file', () => {
+    assert.deepEqual(parseRange('bytes=900-5000', 1000), { start: 900, end: 999 });
+    assert.deepEqual(parseRange('bytes=-5000', 1000), { start: 0, end: 999 });
+  });
+
+  test('sends the whole file for other ranges', () => {
+    assert.equal(parseRange(undefined, 1000), null);
+    assert.equal(parseRange('bytes=0-1,5-6', 1000), null);
+    assert.equal(parseRange('items=0-1', 1000), null);
+    assert.equal(parseRange('bytes=-', 1000), null);
+  });
+
+  test('rejects ranges past the end', () => {
+    assert.equal(parseRange('bytes=1000-', 1000), 'unsatisfiable');
+    assert.equal(parseRange('bytes=10-5', 1000), 'unsatisfiable');
+  });
+});
+
+describe('isFresh', () => {
+  const lastModified = new Date('2026-01-01T00:00:00.500Z');
+  const request = (headers: Record<string, string>) => ({ headers });
+
+  test('compares If-None-Match weakly', () => {
+    assert.equal(isFresh(request({ 'if-none-match': '"a", W/"b"' }), '"b"', lastModified), true);
+    assert.equal(isFresh(request({ 'if-none-match': '"a"' }), '"b"', lastModified), false);
+    assert.equal(isFresh(request({ 'if-none-match': '*' }), '"b"', lastModified), true);
+  });
+
+  test('falls back to If-Modified-Since, to the second', () => {
+    assert.equal(isFresh(request({ 'if-modified-since': lastModified.toUTCString() }), '"b"', lastModified), true);
+    assert.equal(isFresh(request({ 'if-modified-since': 'Wed, 31 Dec 2025 23:59:59 GMT' }), '"b"', lastModified), false);
+  });
+
+  test('prefers If-None-Match', () => {
+    assert.equal(isFresh(request({ 'if-none-match': '"a"', 'if-modified-since': lastModified.toUTCString() }), '"b"', lastModified), false);
+  });
+});
+
+describe('getFileETag', () => {
+  const stat = (size: number, mtimeMs: number) => ({ size, mtimeMs }) as fs.Stats;
+
+  test('changes with the size and modification time', () => {
+    const etag = getFileETag('/public/logo.svg', stat(100, 1000));
+    assert.match(etag, /^"[0-9a-f]+-[0-9a-f]+"$/);
+    assert.equal(getFileETag('/public/logo.svg', stat(100, 1000)), etag);
+    assert.notEqual(getFileETag('/public/logo.svg', stat(101, 1000)), etag);
+    assert.notEqual(getFileETag('/public/logo.svg', stat(100, 2000)), etag);
+  });
+
+  test('uses the content hash of hashed files', () => {
+    assert.equal(getFileETag('/client/counter-31c33db2-ML7PFGZU.js', stat(100, 1000), { hashed: true }), '"ML7PFGZU"');
+    assert.equal(getFileETag('/client/chunk-AXP4HI3F.js.map', stat(100, 1000), { hashed: true }), '"AXP4HI3F"');
+    assert.equal(getFileETag('/client/chunk-AXP4HI3F.js', stat(100, 1000), { hashed: true }), getFileETag('/client/chunk-AXP4HI3F.js', stat(5, 5), { hashed: true }));
+  });
+
+  test('falls back to the file stats for hashed files without a hash in the name', () => {
+    assert.equal(getFileETag('/client/app.js', stat(100, 1000), { hashed: true }), getFileETag('/client/app.js', stat(100, 1000)));
+  });
+});
+
+describe('sendFile', () => {
+  const content = 'abcdefghijklmnopqrstuvwxyz'.repeat(100);
+  let root: string;
+  let server: http.Server;
+  let port: number;
+
+  before(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'flexi-static-'));
+    fs.writeFileSync(path.join(root, 'file.txt'), content);
+    fs.writeFileSync(path.join(root, 'page.html'), content);
+    fs.writeFileSync(path.join(root, 'page.html.br'), 'brotli bytes');
+
+    server = http.createServer(async (req, res) => {
+      const filePath = path.join(root, req.url!.slice(1));
+      await sendFile(req, res, filePath, fs.statSync(filePath), {
+        'Content-Type': filePath.endsWith('.html') ? 'text/html' : 'application/octet-stream',
+        'Cache-Control': 'no-cache'
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as any).port;
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const request = (url: string, headers: Record<string, string> = {}, method = 'GET') =>
+    new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }>((resolve, reject) => {
+      http.request({ port, host: '127.0.0.1', path: url, method, headers }, (res) => {
+        let body = '';
+        res.setEncoding('utf-8');
+        res.on('data', (chunk) => { body += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body }));
+      }).on('error', reject).end();
+    });
+
+  test('sends the file with validators', async () => {
+    const response = await request('/file.txt');
+    assert.equal(response.status, 200);
+    assert.equal(response.body, content);
+    assert.equal(response.headers['content-length'], String(content.length));
+    assert.equal(response.headers['accept-ranges'], 'bytes');
+    assert.ok(response.headers['etag']);
+    assert.ok(response.headers['last-modified']);
+  });
+
+  test('answers 304 for a current copy', async () => {
+    const { headers } = await request('/file.txt');
+    const response = await request('/file.txt', { 'if-none-match': headers['etag']! });
+    assert.equal(response.status, 304);
+    assert.equal(response.body, '');
+  });
+
+  test('sends byte ranges', async () => {
+    const response = await request('/file.txt', { range: 'bytes=26-51' });
+    assert.equal(response.status, 206);
+    assert.equal(response.body, 'abcdefghijklmnopqrstuvwxyz');
+    assert.equal(response.headers['content-range'], `bytes 26-51/${content.length}`);
+  });
+
+  test('answers 416 for a range past the end', async () => {
+    const response = await request('/file.txt', { range: `bytes=${content.length}-` });
+    assert.equal(response.status, 416);
+    assert.equal(response.headers['content-range'], `bytes */${content.length}`);
+  });
+
+  test('sends the whole file when If-Range names another version', async () => {
+    const { headers } = await request('/file.txt');
+    assert.equal((await request('/file.txt', { range: 'bytes=0-9', 'if-range': headers['etag']! })).status, 206);
+
+    const response = await request('/file.txt', { range: 'bytes=0-9', 'if-range': '"old"' });
+    assert.equal(response.status, 200);
+    assert.equal(response.body, content);
+  });
+
+  test('sends the precompressed copy with its own ETag', async () => {
+    const plain = await request('/page.html');
+    const response = await request('/page.html', { 'accept-encoding': 'br' });
+
+    assert.equal(response.headers['content-encoding'], 'br');
+    assert.equal(response.headers['vary'], 'Accept-Encoding');
+    assert.equal(response.body, 'brotli bytes');
+    assert.equal(response.headers['etag'], plain.headers['etag']!.replace(/"$/, '-br"'));
+  });
+
+  test('sends the headers only for HEAD', async () => {
+    const response = await request('/file.txt', {}, 'HEAD');
+    assert.equal(response.status, 200);
+    assert.equal(response.headers['content-length'], String(content.length));
+    assert.equal(response.body, '');
+  });
+});
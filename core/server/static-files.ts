@@ -0,0 +1,175 @@
+/**
+ * FlexiReact Static Files
+ * Sends files from disk with validators (ETag, Last-Modified), conditional
+ * requests (304), byte ranges (206) and the precompressed copies from `flexi build`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { isCompressible, addVary, findPrecompressed } from '../compression/index.js';
+
+/** For content-hashed files, which never change under the same name */
+export const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/** For everything else, cached but checked with the server on every use */
+export const REVALIDATE_CACHE_CONTROL = 'public, max-age=0, must-revalidate';
+
+/** The content hash `flexi build` puts in file names (`app-KY6YYWZK.js`) */
+const CONTENT_HASH = /-([A-Z0-9]{8})(?=\.)/g;
+
+/**
+ * Gets a strong ETag for a file without reading it: the content hash in the
+ * name of a `hashed` file, or the size and modification time of any other
+ */
+export function getFileETag(filePath: string, stat: fs.Stats, { hashed = false } = {}): string {
+  const hashes = hashed ? path.basename(filePath).match(CONTENT_HASH) : null;
+  if (hashes) return `"${hashes[hashes.length - 1].slice(1)}"`;
+
+  return `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+}
+
+/**
+ * Checks an If-None-Match header against an ETag. Uses weak comparison,
+ * so `W/"abc"` matches `"abc"`.
+ */
+function matchesETag(header: string, etag: string): boolean {
+  if (header.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => opaque(tag) === opaque(etag));
+}
+
+/**
+ * Checks whether the client's copy is still current: If-None-Match when
+ * it's there, If-Modified-Since otherwise
+ */
+export function isFresh(req, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) return matchesETag(ifNoneMatch, etag);
+
+  const ifModifiedSince = Date.parse(req.headers['if-modified-since'] || '');
+  if (Number.isNaN(ifModifiedSince)) return false;
+
+  // HTTP dates have a precision of one second
+  return Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+/**
+ * Parses a Range header with a single byte range (`bytes=0-499`, `bytes=500-`,
+ * `bytes=-500`). Returns null to send the whole file (no range, several ranges,
+ * or another unit) and 'unsatisfiable' for a range past the end of the file.
+ */
+export function parseRange(header: string | undefined, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // The last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+/**
+ * Checks If-Range: a range only applies to the version of the file the client has
+ */
+function isRangeCurrent(req, etag: string, lastModified: Date): boolean {
+  const ifRange = req.headers['if-range'];
+  if (!ifRange) return true;
+
+  if (ifRange.startsWith('"')) return ifRange === etag;
+  return Date.parse(ifRange) === Math.floor(lastModified.getTime() / 1000) * 1000;
+}
+
+/**
+ * Sends a file. Answers with 304 when the client's copy is current and with
+ * 206 for a byte range, and sends the `.br`/`.gz` copy when the client accepts it.
+ * `headers` should have the Content-Type and Cache-Control, `hashed` is for
+ * files named after their content.
+ */
+export async function sendFile(req, res, filePath: string, stat: fs.Stats, headers: Record<string, any>, { hashed = false } = {}) {
+  const etag = getFileETag(filePath, stat, { hashed });
+  const lastModified = stat.mtime;
+  const isRead = req.method === 'GET' || req.method === 'HEAD';
+
+  const range = isRead && isRangeCurrent(req, etag, lastModified)
+    ? parseRange(req.headers.range, stat.size)
+    : null;
+
+  let sendPath = filePath;
+  let size = stat.size;
+
+  headers = {
+    ...headers,
+    'Accept-Ranges': 'bytes',
+    'Last-Modified': lastModified.toUTCString(),
+    'ETag': etag
+  };
+
+  // Ranges are byte offsets in the file itself, so they're never sent compressed
+  if (isCompressible(headers['Content-Type'])) {
+    addVary(res, 'Accept-Encoding');
+
+    const precompressed = !range && findPrecompressed(filePath, req.headers['accept-encoding']);
+    if (precompressed) {
+      sendPath = precompressed.filePath;
+      size = precompressed.size;
+      // Each encoding is a different representation, with its own ETag
+      headers['ETag'] = etag.replace(/"$/, `-${precompressed.encoding}"`);
+      headers['Content-Encoding'] = precompressed.encoding;
+    }
+  }
+
+  if (isRead && isFresh(req, headers['ETag'], lastModified)) {
+    res.writeHead(304, {
+      'ETag': headers['ETag'],
+      'Last-Modified': headers['Last-Modified'],
+      'Cache-Control': headers['Cache-Control']
+    });
+    res.end();
+    return;
+  }
+
+  if (range === 'unsatisfiable') {
+    res.writeHead(416, { 'Content-Range': `bytes */${stat.size}` });
+    res.end();
+    return;
+  }
+
+  if (range) {
+    res.writeHead(206, {
+      ...headers,
+      'Content-Range': `bytes ${range.start}-${range.end}/${stat.size}`,
+      'Content-Length': range.end - range.start + 1
+    });
+  } else {
+    res.writeHead(200, { ...headers, 'Content-Length': size });
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  fs.createReadStream(sendPath, range ? { start: range.start, end: range.end } : {})
+    .on('error', (error) => res.destroy(error))
+    .pipe(res);
+}
+
+export default {
+  sendFile,
+  getFileETag,
+  isFresh,
+  parseRange,
+  IMMUTABLE_CACHE_CONTROL,
+  REVALIDATE_CACHE_CONTROL
+};
@@ -0,0 +1,200 @@
+/**
+ * FlexiReact Source Maps
+ * Maps positions in compiled code back to the original source, and renders
+ * code frames around them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { SourceMap } from 'module';
+import { fileURLToPath } from 'url';
+
+export interface OriginalPosition {
+  /** Source path as recorded in the map */
+  source: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+export interface SourceLocation {
+  /** Absolute path of the original file */
+  file: string;
+  line: number;
+  column: number;
+  codeFrame: string;
+}
+
+/**
+ * Maps a 1-based line and column through a source map.
+ * Returns null when the position isn't covered by the map.
+ */
+export function mapPosition(map: string | Record<string, any> | SourceMap, line: number, column: number): OriginalPosition | null {
+  const sourceMap = map instanceof SourceMap ? map : new SourceMap(typeof map === 'string' ? JSON.parse(map) : map);
+  const entry: any = sourceMap.findEntry(line - 1, Math.max(column - 1, 0));
+
+  if (!entry || entry.originalLine === undefined) return null;
+
+  return {
+    source: entry.originalSource,
+    line: entry.originalLine + 1,
+    column: entry.originalColumn + 1
+  };
+}
+
+/**
+ * Renders the lines around a 1-based position, with a marker under the column:
+ *
+ *     10 |   const total = items.length;
+ *   > 11 |   throw new Error('Out of stock');
+ *        |   ^
+ *     12 | }
+ */
+export function createCodeFrame(source: string, line: number, column = 0, contextLines = 2): string {
+  const lines = source.replace(/\r?\n$/, '').split(/\r?\n/);
+  const start = Math.max(line - contextLines, 1);
+  const end = Math.min(line + contextLines, lines.length);
+  const width = String(end).length;
+
+  const frame = [];
+
+  for (let current = start; current <= end; current++) {
+    const gutter = String(current).padStart(width);
+    const marker = current === line ? '>' : ' ';
+    frame.push(`${marker} ${gutter} | ${lines[current - 1]}`.trimEnd());
+
+    if (current === line && column > 0) {
+      frame.push(`  ${' '.repeat(width)} | ${' '.repeat(column - 1)}^`);
+    }
+  }
+
+  return frame.join('\n');
+}
+
+// Source maps of compiled files, read again when the file changes
+const sourceMapCache = new Map<string, { mtimeMs: number; sourceMap: SourceMap | null }>();
+
+/**
+ * Reads the source map of a compiled file from its `sourceMappingURL` comment,
+ * inline (`data:`) or next to the file. Returns null when it has none.
+ */
+export function loadSourceMap(filePath: string): SourceMap | null {
+  const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+  if (!stat) return null;
+
+  const cached = sourceMapCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.sourceMap;
+
+  let sourceMap: SourceMap | null = null;
+
+  try {
+    const code = fs.readFileSync(filePath, 'utf-8');
+    const match = code.match(/\/\/[#@] sourceMappingURL=(\S+)\s*$/);
+
+    if (match) {
+      const url = match[1];
+      const payload = url.startsWith('data:')
+        ? Buffer.from(url.slice(url.indexOf(',') + 1), url.includes(';base64,') ? 'base64' : 'utf-8').toString('utf-8')
+        : fs.readFileSync(path.resolve(path.dirname(filePath), decodeURIComponent(url)), 'utf-8');
+
+      sourceMap = new SourceMap(JSON.parse(payload));
+    }
+  } catch {
+    // A broken source map only means the stack stays as it is
+  }
+
+  sourceMapCache.set(filePath, { mtimeMs: stat.mtimeMs, sourceMap });
+  return sourceMap;
+}
+
+/**
+ * Gets the path of a stack frame location (a path or a `file:` URL, maybe with a query)
+ */
+function getFramePath(location: string): string | null {
+  if (location.startsWith('file:')) return fileURLToPath(location.split('?')[0]);
+  return path.isAbsolute(location) ? location.split('?')[0] : null;
+}
+
+// "    at fn (location:1:2)" or "    at location:1:2"
+const STACK_FRAME = /^(\s*at (?:.+? \()?)(.+?):(\d+):(\d+)(\)?)$/;
+
+/**
+ * Rewrites the frames of a stack trace that point into compiled files with a
+ * source map, so they point at the original source instead
+ */
+export function mapStackTrace(stack: string): string {
+  return stack.split('\n').map((line) => {
+    const match = line.match(STACK_FRAME);
+    if (!match) return line;
+
+    const [, prefix, location, frameLine, frameColumn, suffix] = match;
+    const filePath = getFramePath(location);
+    if (!filePath || filePath.includes(`${path.sep}node_modules${path.sep}`)) return line;
+
+    const sourceMap = loadSourceMap(filePath);
+    const position = sourceMap && mapPosition(sourceMap, Number(frameLine), Number(frameColumn));
+    if (!position) return line;
+
+    const source = position.source.startsWith('file:')
+      ? fileURLToPath(position.source)
+      : path.resolve(path.dirname(filePath), sourceMap.payload.sourceRoot || '', position.source);
+
+    return `${prefix}${source}:${position.line}:${position.column}${suffix}`;
+  }).join('\n');
+}
+
+const mappedErrors = new WeakSet<object>();
+
+/**
+ * Maps an error's stack to the original source, in place. Errors are only mapped once.
+ */
+export function mapErrorStack<T>(error: T): T {
+  if (!(error instanceof Error) || typeof error.stack !== 'string' || mappedErrors.has(error)) return error;
+
+  mappedErrors.add(error);
+  error.stack = mapStackTrace(error.stack);
+  return error;
+}
+
+/**
+ * Finds the first stack frame in the project's own code (not in node_modules or
+ * Node itself), with a code frame around it
+ */
+export function findSourceLocation(stack: string | null | undefined): SourceLocation | null {
+  if (!stack) return null;
+
+  for (const line of stack.split('\n')) {
+    const match = line.match(STACK_FRAME);
+    const filePath = match && getFramePath(match[2]);
+    if (!filePath || filePath.includes(`${path.sep}node_modules${path.sep}`)) continue;
+
+    let source: string;
+    try {
+      source = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const frameLine = Number(match[3]);
+    const frameColumn = Number(match[4]);
+
+    return {
+      file: filePath,
+      line: frameLine,
+      column: frameColumn,
+      codeFrame: createCodeFrame(source, frameLine, frameColumn)
+    };
+  }
+
+  return null;
+}
+
+export default {
+  mapPosition,
+  createCodeFrame,
+  loadSourceMap,
+  mapStackTrace,
+  mapErrorStack,
+  findSourceLocation
+};
@@ -14,7 +14,10 @@ import fs from 'fs';
 import path from 'path';
 import { pathToFileURL } from 'url';
 import { renderPage } from '../render/index.js';
+import { loadLayoutChain } from '../render/layouts.js';
 import { ensureDir, cleanDir } from '../utils.js';
+import { cache, revalidatePath } from '../edge/cache.js';
+import { buildRoutePath } from '../router/index.js';
 
 /**
  * SSG Build Result
@@ -64,9 +67,11 @@ export class SSGResult {
 export async function generateStaticSite(options) {
   const {
     routes,
+    layouts = new Map(),
     outDir,
     config,
-    loadModule
+    loadModule,
+    nonce
   } = options;
 
   const result = new SSGResult();
@@ -80,7 +85,7 @@ export async function generateStaticSite(options) {
 
   for (const route of routes) {
     try {
-      await generateRoutePage(route, staticDir, loadModule, result, config);
+      await generateRoutePage(route, staticDir, loadModule, result, config, layouts, nonce);
     } catch (error) {
       console.error(`  ✗ ${route.path}: ${error.message}`);
       result.addError(route.path, error);
@@ -103,7 +108,7 @@ export async function generateStaticSite(options) {
 /**
  * Generates a single route's static page(s)
  */
-async function generateRoutePage(route, outDir, loadModule, result, config) {
+async function generateRoutePage(route, outDir, loadModule, result, config, layoutsMap, nonce) {
   const module = await loadModule(route.filePath);
   const Component = module.default;
 
@@ -132,7 +137,7 @@ async function generateRoutePage(route, outDir, loadModule, result, config) {
   // Generate page for each path
   for (const pathConfig of paths) {
     const params = pathConfig.params || {};
-    const actualPath = substituteParams(route.path, params);
+    const actualPath = buildRoutePath(route.path, params);
 
     try {
       // Get static props
@@ -155,13 +160,21 @@ async function generateRoutePage(route, outDir, loadModule, result, config) {
         props = { ...props, ...staticProps.props };
       }
 
-      // Render the page
+      // Render the page inside its layout chain
+      const { layouts, metadata } = await loadLayoutChain(route, layoutsMap, loadModule, {
+        params,
+        pathname: actualPath
+      });
+      const meta = { ...metadata, ...module.metadata };
+
       const html = await renderPage({
         Component,
         props,
-        title: module.title || module.metadata?.title || 'FlexiReact App',
-        meta: module.metadata || {},
-        isSSG: true
+        layouts,
+        title: module.title || meta.title || 'FlexiReact App',
+        meta,
+        isSSG: true,
+        nonce
       });
 
       // Write to file
@@ -212,20 +225,6 @@ async function generateRedirectPage(fromPath, redirect, outDir, result) {
   console.log(`  ↪ ${fromPath} → ${destination}`);
 }
 
-/**
- * Substitutes route params into path
- */
-function substituteParams(routePath, params) {
-  let result = routePath;
-  
-  for (const [key, value] of Object.entries(params)) {
-    result = result.replace(`:${key}`, value);
-    result = result.replace(`*${key}`, value);
-  }
-  
-  return result;
-}
-
 /**
  * Gets the output file path for a route
  */
@@ -250,7 +249,10 @@ function formatSize(bytes) {
 
 /**
  * Incremental Static Regeneration (ISR) support
- * Allows pages to be regenerated after a specified interval
+ * Allows pages to be regenerated after a specified interval.
+ *
+ * Pages are stored in the shared cache under `page:<path>`, so
+ * `revalidatePath()` and `revalidateTag()` invalidate them.
  */
 interface ISRCacheEntry {
   html: string;
@@ -258,65 +260,110 @@ interface ISRCacheEntry {
   revalidateAfter: number | null;
 }
 
+export type ISRCacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface ISRPageResult extends ISRCacheEntry {
+  status: ISRCacheStatus;
+}
+
+export interface ISRGeneratorResult {
+  html: string;
+  /**
+   * Seconds until the page is regenerated, `0` to render it on every request,
+   * `false` to keep it until invalidated
+   */
+  revalidate?: number | false;
+  /** Tags for `revalidateTag()` */
+  tags?: string[];
+}
+
+/** Tag of every cached page, for clear() */
+const PAGES_TAG = 'flexi:pages';
+
 export class ISRManager {
-  cache: Map<string, ISRCacheEntry>;
   revalidating: Set<string>;
+  pending: Map<string, Promise<ISRCacheEntry>>;
   defaultRevalidate: number;
 
   constructor(options: { defaultRevalidate?: number } = {}) {
-    this.cache = new Map();
     this.revalidating = new Set();
-    this.defaultRevalidate = options.defaultRevalidate || 60; // seconds
+    this.pending = new Map();
+    this.defaultRevalidate = options.defaultRevalidate ?? 60; // seconds
   }
 
   /**
-   * Gets a cached page or regenerates it
+   * Gets a cached page or regenerates it.
+   * Stale pages are served while a fresh copy renders in the background.
    */
-  async getPage(routePath, generator) {
-    const cached = this.cache.get(routePath);
-    const now = Date.now();
+  async getPage(routePath: string, generator: () => Promise<ISRGeneratorResult>): Promise<ISRPageResult> {
+    const cached = await cache.get<ISRCacheEntry>(getPageKey(routePath));
 
     if (cached) {
+      const entry = cached.value;
+
       // Check if revalidation is needed
-      if (cached.revalidateAfter && now > cached.revalidateAfter) {
+      if (entry.revalidateAfter && Date.now() > entry.revalidateAfter) {
         // Trigger background revalidation
         this.revalidateInBackground(routePath, generator);
+        return { ...entry, status: 'STALE' };
       }
-      return cached.html;
+
+      return { ...entry, status: 'HIT' };
+    }
+
+    // Generate fresh page, sharing the work between concurrent requests
+    let pending = this.pending.get(routePath);
+    if (!pending) {
+      pending = this.generate(routePath, generator);
+      this.pending.set(routePath, pending);
+      pending.finally(() => this.pending.delete(routePath)).catch(() => {});
     }
 
-    // Generate fresh page
+    const entry = await pending;
+    return { ...entry, status: 'MISS' };
+  }
+
+  /**
+   * Renders a page and stores it in the cache
+   */
+  async generate(routePath: string, generator: () => Promise<ISRGeneratorResult>): Promise<ISRCacheEntry> {
     const result = await generator();
-    this.cache.set(routePath, {
+    const now = Date.now();
+    const revalidate = result.revalidate === undefined ? this.defaultRevalidate : result.revalidate;
+
+    const entry: ISRCacheEntry = {
       html: result.html,
       generatedAt: now,
-      revalidateAfter: result.revalidate 
-        ? now + (result.revalidate * 1000)
-        : null
+      revalidateAfter: revalidate === false
+        ? null
+        : now + (revalidate * 1000)
+    };
+
+    // Rendered on every request, a copy cached with an earlier `revalidate` goes too
+    if (revalidate === 0) {
+      await cache.delete(getPageKey(routePath));
+      return entry;
+    }
+
+    // Entries never expire on their own, they go stale and get regenerated
+    await cache.set(getPageKey(routePath), entry, {
+      ttl: 0,
+      tags: [PAGES_TAG, ...(result.tags || [])]
     });
 
-    return result.html;
+    return entry;
   }
 
   /**
    * Revalidates a page in the background
    */
-  async revalidateInBackground(routePath, generator) {
+  async revalidateInBackground(routePath: string, generator: () => Promise<ISRGeneratorResult>) {
     if (this.revalidating.has(routePath)) return;
 
     this.revalidating.add(routePath);
 
     try {
-      const result = await generator();
-      const now = Date.now();
-      
-      this.cache.set(routePath, {
-        html: result.html,
-        generatedAt: now,
-        revalidateAfter: result.revalidate 
-          ? now + (result.revalidate * 1000)
-          : null
-      });
+      await this.generate(routePath, generator);
     } catch (error) {
       console.error(`ISR revalidation failed for ${routePath}:`, error);
     } finally {
@@ -327,18 +374,25 @@ export class ISRManager {
   /**
    * Invalidates a cached page
    */
-  invalidate(routePath) {
-    this.cache.delete(routePath);
+  async invalidate(routePath: string) {
+    await revalidatePath(routePath);
   }
 
   /**
-   * Clears all cached pages
+   * Clears all cached pages, leaving the rest of the cache alone
    */
-  clear() {
-    this.cache.clear();
+  async clear() {
+    await cache.deleteByTag(PAGES_TAG);
   }
 }
 
+/**
+ * Cache key of a page, shared with `revalidatePath()`
+ */
+function getPageKey(routePath: string): string {
+  return `page:${routePath}`;
+}
+
 export default {
   generateStaticSite,
   SSGResult,
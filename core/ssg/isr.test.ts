@@ -0,0 +1,71 @@
+import { test, describe, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ISRManager } from './index.js';
+import { cache } from '../edge/cache.js';
+
+describe('ISRManager', () => {
+  let isr: ISRManager;
+  let renders: number;
+
+  const page = (revalidate?: number | false) => async () => {
+    renders++;
+    return { html: `<p>render ${renders}</p>`, revalidate };
+  };
+
+  beforeEach(async () => {
+    isr = new ISRManager();
+    renders = 0;
+    await isr.clear();
+  });
+
+  test('serves a cached page until it is due', async () => {
+    const first = await isr.getPage('/a', page(60));
+    const second = await isr.getPage('/a', page(60));
+
+    assert.equal(first.status, 'MISS');
+    assert.equal(second.status, 'HIT');
+    assert.equal(second.html, '<p>render 1</p>');
+    assert.equal(second.revalidateAfter, first.generatedAt + 60_000);
+  });
+
+  test('keeps `revalidate: false` pages until invalidated', async () => {
+    const first = await isr.getPage('/a', page(false));
+    assert.equal(first.revalidateAfter, null);
+    assert.equal((await isr.getPage('/a', page(false))).status, 'HIT');
+
+    await isr.invalidate('/a');
+    assert.equal((await isr.getPage('/a', page(false))).status, 'MISS');
+  });
+
+  test('renders `revalidate: 0` pages on every request', async () => {
+    const first = await isr.getPage('/a', page(0));
+    const second = await isr.getPage('/a', page(0));
+
+    assert.equal(first.status, 'MISS');
+    assert.equal(second.status, 'MISS');
+    assert.equal(second.html, '<p>render 2</p>');
+    assert.equal(second.revalidateAfter, second.generatedAt);
+  });
+
+  test('drops the cached copy once a page switches to `revalidate: 0`', async () => {
+    await isr.getPage('/a', page(60));
+    await isr.generate('/a', page(0));
+
+    assert.equal((await isr.getPage('/a', page(0))).status, 'MISS');
+  });
+
+  test('uses the default interval when the page gives none', async () => {
+    const result = await new ISRManager({ defaultRevalidate: 5 }).getPage('/b', page());
+    assert.equal(result.revalidateAfter, result.generatedAt + 5_000);
+  });
+
+  test('clear() drops cached pages only', async () => {
+    await isr.getPage('/a', page(60));
+    await cache.set('user:1', { name: 'Ada' });
+
+    await isr.clear();
+
+    assert.equal((await isr.getPage('/a', page(60))).status, 'MISS');
+    assert.deepEqual((await cache.get('user:1'))?.value, { name: 'Ada' });
+  });
+});
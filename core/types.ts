@@ -18,6 +18,35 @@ export interface FlexiConfig {
   server?: {
     port?: number;
     host?: string;
+    /** Brotli or gzip compression, on by default. `threshold` is the minimum size in bytes. */
+    compression?: boolean | { enabled?: boolean; threshold?: number };
+    /**
+     * Request body limits in bytes: `maxSize` for JSON, form and text bodies,
+     * `maxUploadSize` for multipart/form-data. Uploaded files larger than
+     * `diskThreshold` are written to a temporary file instead of memory.
+     */
+    body?: { maxSize?: number; maxUploadSize?: number; diskThreshold?: number };
+  };
+  /**
+   * Content-Security-Policy with a nonce per response, off by default. `directives`
+   * are merged over the defaults (`false` removes one), `reportOnly` sends the
+   * report-only header, and `report: true` logs violations sent to `/_flexi/csp-report`.
+   */
+  csp?: boolean | {
+    enabled?: boolean;
+    reportOnly?: boolean;
+    directives?: Record<string, string | string[] | false>;
+    report?: boolean | string;
+  };
+  /**
+   * Server action protection. Requests must come from the same origin or one of
+   * `allowedOrigins` (`https://admin.example.com`, `*.example.com`) and carry the action token.
+   * `secret` signs the arguments bound to form actions, the build ID by default.
+   */
+  actions?: {
+    csrf?: boolean;
+    allowedOrigins?: string[];
+    secret?: string;
   };
   /** Islands configuration */
   islands?: {
@@ -27,6 +56,8 @@ export interface FlexiConfig {
   routing?: {
     type?: 'flexi' | 'app' | 'pages';
   };
+  /** Param matchers for constrained routes, e.g. `int` for `[id=int]` */
+  matchers?: Record<string, RouteParamMatcher>;
   /** Pages directory */
   pagesDir?: string;
   /** Layouts directory */
@@ -39,7 +70,19 @@ export interface FlexiConfig {
 // Router Types
 // ============================================================================
 
-export type RouteType = 'page' | 'api' | 'layout' | 'loading' | 'error' | 'not-found';
+export type RouteType = 'page' | 'api' | 'layout' | 'template' | 'loading' | 'error' | 'not-found';
+
+/** Route params. Catch-alls (`[...slug]`, `[[...slug]]`) are arrays of segments */
+export type RouteParams = Record<string, string | string[]>;
+
+/** Accepts or rejects the value of a constrained param */
+export type RouteParamMatcher = (value: string) => boolean;
+
+/** A layout.tsx, template.tsx, error.tsx or not-found.tsx above a route */
+export interface LayoutChainEntry {
+  type: 'layout' | 'template' | 'error' | 'not-found';
+  filePath: string;
+}
 
 export interface Route {
   type: RouteType;
@@ -48,6 +91,8 @@ export interface Route {
   pattern: RegExp;
   segments: string[];
   layout?: string | null;
+  /** Layouts, templates and error pages from the root down to the route's directory */
+  layoutChain?: LayoutChainEntry[];
   loading?: string | null;
   error?: string | null;
   notFound?: string | null;
@@ -57,7 +102,7 @@ export interface Route {
   isServerComponent?: boolean;
   isClientComponent?: boolean;
   isIsland?: boolean;
-  params?: Record<string, string>;
+  params?: RouteParams;
 }
 
 export interface RouteTree {
@@ -68,19 +113,69 @@ export interface RouteTree {
   appRoutes: Route[];
   flexiRoutes: Route[];
   rootLayout?: string;
+  /** Conflicting and shadowed routes found while scanning */
+  diagnostics?: RouteDiagnostic[];
+}
+
+/** A route that is never matched because another file wins, or that uses an unregistered matcher */
+export interface RouteDiagnostic {
+  type: 'conflict' | 'shadowed' | 'unknown-matcher';
+  /** Human-readable description, naming the files */
+  message: string;
+  /** The route that is never matched */
+  path: string;
+  filePath: string;
+  /** The route that wins, for conflicts and shadowed routes */
+  winner?: {
+    path: string;
+    filePath: string;
+  };
 }
 
 export interface RouteMatch {
   route: Route;
-  params: Record<string, string>;
+  params: RouteParams;
 }
 
+// ============================================================================
+// Typed Routes
+// ============================================================================
+
+/**
+ * The app's routes. Empty until `flexi dev` or `flexi build` writes
+ * `.flexi/types/routes.d.ts`, which fills it in through module augmentation.
+ */
+export interface RouteRegistry {}
+
+/** Links that are never checked against the routes */
+export type ExternalHref =
+  | `http://${string}`
+  | `https://${string}`
+  | `mailto:${string}`
+  | `tel:${string}`
+  | `#${string}`;
+
+/** A known route (with an optional query or hash) or an external URL. Any string until routes are generated */
+export type Href = RouteRegistry extends { href: infer H extends string }
+  ? H | `${H}?${string}` | `${H}#${string}` | ExternalHref
+  : string;
+
+/** Route paths as they appear in the route tree, e.g. `/blog/:slug` */
+export type RoutePath = RouteRegistry extends { params: infer P } ? keyof P & string : string;
+
+/** Params of a route path, e.g. `{ slug: string }` for `/blog/:slug` */
+export type ParamsOf<Path extends string> = RouteRegistry extends { params: infer P }
+  ? [keyof P] extends [Path]
+    ? RouteParams
+    : Path extends keyof P ? P[Path] : RouteParams
+  : RouteParams;
+
 // ============================================================================
 // Server Types
 // ============================================================================
 
 export type Request = IncomingMessage & {
-  params?: Record<string, string>;
+  params?: RouteParams;
   query?: Record<string, string>;
   body?: unknown;
   json?: () => Promise<unknown>;
@@ -105,6 +200,22 @@ export type ApiHandler = (
   res: Response
 ) => void | Promise<void>;
 
+/**
+ * Context passed to Web-standard route handlers (GET, POST, ...)
+ */
+export interface RouteHandlerContext {
+  params: RouteParams;
+  query?: Record<string, string>;
+}
+
+/**
+ * Web-standard API route handler, shared by createServer and createEdgeApp
+ */
+export type RouteHandler = (
+  request: globalThis.Request,
+  context: RouteHandlerContext
+) => globalThis.Response | Promise<globalThis.Response>;
+
 // ============================================================================
 // React 19 Action Types
 // ============================================================================
@@ -147,14 +258,14 @@ export interface TypedActionResult<T> {
 // Component Types
 // ============================================================================
 
-export interface PageProps {
-  params?: Record<string, string>;
+export interface PageProps<Path extends string = string> {
+  params?: ParamsOf<Path>;
   searchParams?: Record<string, string>;
 }
 
 export interface LayoutProps {
   children: ReactNode;
-  params?: Record<string, string>;
+  params?: RouteParams;
 }
 
 export interface ErrorProps {
@@ -211,7 +322,7 @@ export interface BuildResult {
 // ============================================================================
 
 export interface StaticPath {
-  params: Record<string, string>;
+  params: RouteParams;
 }
 
 export interface StaticProps {
@@ -230,7 +341,7 @@ export type GetStaticPaths = () => Promise<{
 }>;
 
 export type GetStaticProps = (context: {
-  params?: Record<string, string>;
+  params?: RouteParams;
 }) => Promise<StaticProps>;
 
 // ============================================================================